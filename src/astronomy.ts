@@ -0,0 +1,155 @@
+// Positions of the sun and moon in the sky for a place on Earth and a moment
+// in time, using the low-precision formulas from the Astronomical Almanac
+// (good to a fraction of a degree, plenty for lighting a scene). Plain math
+// with no three.js, so it also runs headless.
+
+// Place on Earth in degrees; north and east are positive
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+// Where a body appears in the sky, in radians. Elevation is the angle above
+// the horizon; azimuth is measured clockwise from north.
+export interface CelestialPosition {
+  elevation: number;
+  azimuth: number;
+}
+
+export interface SkyState {
+  sun: CelestialPosition;
+  moon: CelestialPosition;
+  moonIllumination: number; // Lit fraction of the moon's disc, 0-1
+}
+
+const radians = Math.PI / 180;
+const obliquity = 23.4397 * radians; // Tilt of the Earth's axis
+const j2000 = 2451545; // Julian date of 2000-01-01 12:00 UTC
+const sunDistance = 149598000; // km
+const millisecondsPerDay = 86400000;
+
+// Function to create a sky state to be filled in by `getSkyState`
+export function createSkyState(): SkyState {
+  return {
+    sun: { elevation: 0, azimuth: 0 },
+    moon: { elevation: 0, azimuth: 0 },
+    moonIllumination: 0,
+  };
+}
+
+// Function to get the days since J2000 for a Unix timestamp in milliseconds
+function getDaysSinceJ2000(timestamp: number) {
+  return timestamp / millisecondsPerDay + 2440587.5 - j2000;
+}
+
+// Function to get the right ascension and declination of the sun
+function getSunCoordinates(days: number) {
+  const meanAnomaly = (357.5291 + 0.98560028 * days) * radians;
+  const center =
+    (1.9148 * Math.sin(meanAnomaly) +
+      0.02 * Math.sin(2 * meanAnomaly) +
+      0.0003 * Math.sin(3 * meanAnomaly)) *
+    radians;
+  const longitude = meanAnomaly + center + (102.9372 + 180) * radians;
+
+  return {
+    rightAscension: Math.atan2(
+      Math.sin(longitude) * Math.cos(obliquity),
+      Math.cos(longitude)
+    ),
+    declination: Math.asin(Math.sin(obliquity) * Math.sin(longitude)),
+  };
+}
+
+// Function to get the right ascension, declination and distance (km) of
+// the moon
+function getMoonCoordinates(days: number) {
+  const meanLongitude = (218.316 + 13.176396 * days) * radians;
+  const meanAnomaly = (134.963 + 13.064993 * days) * radians;
+  const argumentOfLatitude = (93.272 + 13.22935 * days) * radians;
+
+  const longitude = meanLongitude + 6.289 * radians * Math.sin(meanAnomaly);
+  const latitude = 5.128 * radians * Math.sin(argumentOfLatitude);
+
+  return {
+    rightAscension: Math.atan2(
+      Math.sin(longitude) * Math.cos(obliquity) -
+        Math.tan(latitude) * Math.sin(obliquity),
+      Math.cos(longitude)
+    ),
+    declination: Math.asin(
+      Math.sin(latitude) * Math.cos(obliquity) +
+        Math.cos(latitude) * Math.sin(obliquity) * Math.sin(longitude)
+    ),
+    distance: 385001 - 20905 * Math.cos(meanAnomaly),
+  };
+}
+
+// Function to turn equatorial coordinates into elevation and azimuth as seen
+// from a location
+function setHorizontalPosition(
+  target: CelestialPosition,
+  days: number,
+  location: GeoLocation,
+  rightAscension: number,
+  declination: number
+) {
+  const latitude = location.latitude * radians;
+  const siderealTime = (280.16 + 360.9856235 * days) * radians;
+  const hourAngle =
+    siderealTime + location.longitude * radians - rightAscension;
+
+  target.elevation = Math.asin(
+    Math.sin(latitude) * Math.sin(declination) +
+      Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  // Measured from south towards west, then turned to clockwise from north
+  target.azimuth =
+    Math.atan2(
+      Math.sin(hourAngle),
+      Math.cos(hourAngle) * Math.sin(latitude) -
+        Math.tan(declination) * Math.cos(latitude)
+    ) + Math.PI;
+}
+
+// Function to work out where the sun and moon are at a moment in time
+// (milliseconds since the Unix epoch), filling in `target`
+export function getSkyState(
+  timestamp: number,
+  location: GeoLocation,
+  target: SkyState = createSkyState()
+) {
+  const days = getDaysSinceJ2000(timestamp);
+  const sun = getSunCoordinates(days);
+  const moon = getMoonCoordinates(days);
+
+  setHorizontalPosition(
+    target.sun,
+    days,
+    location,
+    sun.rightAscension,
+    sun.declination
+  );
+  setHorizontalPosition(
+    target.moon,
+    days,
+    location,
+    moon.rightAscension,
+    moon.declination
+  );
+
+  // Angle between the sun and moon seen from Earth gives the moon's phase
+  const cosElongation =
+    Math.sin(sun.declination) * Math.sin(moon.declination) +
+    Math.cos(sun.declination) *
+      Math.cos(moon.declination) *
+      Math.cos(sun.rightAscension - moon.rightAscension);
+  const elongation = Math.acos(Math.min(1, Math.max(-1, cosElongation)));
+  const phaseAngle = Math.atan2(
+    sunDistance * Math.sin(elongation),
+    moon.distance - sunDistance * Math.cos(elongation)
+  );
+  target.moonIllumination = (1 + Math.cos(phaseAngle)) / 2;
+
+  return target;
+}
@@ -0,0 +1,99 @@
+// Fixed-timestep simulation clock. Real elapsed time is accumulated and
+// consumed in fixed steps, so the simulation runs at the same speed no
+// matter how often the browser renders a frame.
+
+export const MIN_TIME_SCALE = 0.25;
+export const MAX_TIME_SCALE = 16;
+
+export interface SimulationClock {
+  fixedStep: number; // Simulated seconds per step
+  timeScale: number; // Simulated seconds per real second
+  paused: boolean;
+  time: number; // Total simulated seconds
+  accumulator: number; // Scaled real time not yet consumed by a step
+  pendingSteps: number; // Single steps requested while paused
+  maxFrameDelta: number; // Cap on real seconds consumed per frame
+}
+
+export interface SimulationClockOptions {
+  fixedStep?: number;
+  timeScale?: number;
+  paused?: boolean;
+  time?: number;
+}
+
+// Function to create a simulation clock
+export function createSimulationClock(
+  options: SimulationClockOptions = {}
+): SimulationClock {
+  const fixedStep = options.fixedStep ?? 1 / 60;
+  if (!(fixedStep > 0)) {
+    throw new Error(`Clock fixedStep must be positive, got ${fixedStep}`);
+  }
+
+  return {
+    fixedStep,
+    timeScale: clampTimeScale(options.timeScale ?? 1),
+    paused: options.paused ?? false,
+    time: options.time ?? 0,
+    accumulator: 0,
+    pendingSteps: 0,
+    // Avoids a burst of catch-up steps after the tab was in the background
+    maxFrameDelta: 0.25,
+  };
+}
+
+// Function to keep a time scale inside the supported range
+export function clampTimeScale(scale: number) {
+  return Math.min(MAX_TIME_SCALE, Math.max(MIN_TIME_SCALE, scale));
+}
+
+// Function to change how fast simulated time runs
+export function setTimeScale(clock: SimulationClock, scale: number) {
+  clock.timeScale = clampTimeScale(scale);
+}
+
+// Function to pause or resume the clock
+export function setPaused(clock: SimulationClock, paused: boolean) {
+  clock.paused = paused;
+  clock.accumulator = 0;
+}
+
+// Function to request a single simulation step (only while paused)
+export function requestStep(clock: SimulationClock) {
+  if (clock.paused) {
+    clock.pendingSteps++;
+  }
+}
+
+// Function to advance the clock by real elapsed seconds, calling `step`
+// once per fixed step. Returns the number of steps taken.
+export function advanceClock(
+  clock: SimulationClock,
+  realDelta: number,
+  step: (dt: number) => void
+) {
+  let steps = 0;
+
+  if (clock.paused) {
+    while (clock.pendingSteps > 0) {
+      clock.pendingSteps--;
+      clock.time += clock.fixedStep;
+      step(clock.fixedStep);
+      steps++;
+    }
+    return steps;
+  }
+
+  const delta = Math.min(Math.max(realDelta, 0), clock.maxFrameDelta);
+  clock.accumulator += delta * clock.timeScale;
+
+  while (clock.accumulator >= clock.fixedStep) {
+    clock.accumulator -= clock.fixedStep;
+    clock.time += clock.fixedStep;
+    step(clock.fixedStep);
+    steps++;
+  }
+
+  return steps;
+}
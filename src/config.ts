@@ -0,0 +1,391 @@
+// City configuration shared by every generator. Anything that controls the
+// size, layout or density of the city lives here instead of being
+// hard-coded in the individual create* functions.
+
+import type { GeoLocation } from "./astronomy";
+import type { WeatherKind } from "./sim/weather";
+import type { LandUse } from "./sim/zoning";
+
+export type RoadAxis = "horizontal" | "vertical";
+
+// Places a street element on every `every`-th grid cell, starting at `offset`
+export interface StreetElementSpacing {
+  every: number;
+  offset: number;
+}
+
+// Durations, in seconds, of the phases every intersection cycles through
+export interface SignalTimings {
+  green: number;
+  yellow: number;
+  allRed: number; // Clearance time with every approach on red
+}
+
+// Offsets intersections along one road axis so that traffic driving at
+// `speed` in the positive direction meets consecutive green lights
+export interface GreenWave {
+  road: RoadAxis;
+  speed: number; // Units per second
+}
+
+// Share of the city's full traffic out in each hour of the day, from
+// midnight. A share of 1 is `carsPerRoad` cars and `pedestriansPerRoad`
+// pedestrians on every road; between hours the shares are blended.
+export interface TrafficDemand {
+  cars: number[];
+  pedestrians: number[];
+}
+
+export interface CityConfig {
+  gridSize: number; // Width and depth of the city in scene units
+  gridDivisions: number; // Number of grid cells along each axis
+  roadSpacing: number; // A road runs along every `roadSpacing`-th cell...
+  roadOffset: number; // ...starting at this cell index
+  carsPerRoad: number; // Cars on each horizontal and vertical road
+  pedestriansPerRoad: number; // Pedestrians along each road
+  lampposts: StreetElementSpacing;
+  benches: StreetElementSpacing;
+  trees: StreetElementSpacing;
+  dayDuration: number; // Simulated seconds for a full day-night cycle
+  location: GeoLocation; // Where the city is, for the sun and moon
+  startDate: string; // Local date of the first simulated day, "YYYY-MM-DD"
+  utcOffset: number; // Hours the city's clocks are ahead of UTC
+  weather: WeatherKind | "changing"; // Fixed weather, or changing over time
+  signalTimings: SignalTimings;
+  greenWave: GreenWave | null; // Random signal offsets when null
+  // Land use of each cell, one row per grid row along z; generated from
+  // the distance to the center when null
+  zoningMap: LandUse[][] | null;
+  // Which cells are paved, one row per grid row along z; every cell of the
+  // road lines picked by `roadSpacing` and `roadOffset` when null
+  roadMap: boolean[][] | null;
+  // Chunks of generated city around the camera, in each direction from the
+  // chunk it looks at; 0 shows the city on its own
+  chunkRadius: number;
+  detailRadius: number; // Chunks this close get full detail and traffic
+  // Hourly demand that cars and pedestrians come into and leave the city
+  // to follow; a fixed population that wraps around at the edges when
+  // null, as in every city from before demand curves
+  demand: TrafficDemand | null;
+}
+
+export const defaultCityConfig: CityConfig = {
+  gridSize: 100,
+  gridDivisions: 10,
+  roadSpacing: 3,
+  roadOffset: 1,
+  carsPerRoad: 3,
+  pedestriansPerRoad: 6,
+  lampposts: { every: 4, offset: 0 },
+  benches: { every: 4, offset: 2 },
+  trees: { every: 2, offset: 0 },
+  dayDuration: 120,
+  location: { latitude: 51.5074, longitude: -0.1278 }, // London
+  startDate: "2025-03-20",
+  utcOffset: 0,
+  weather: "changing",
+  signalTimings: { green: 8, yellow: 3, allRed: 1.5 },
+  greenWave: null,
+  zoningMap: null,
+  roadMap: null,
+  chunkRadius: 2,
+  detailRadius: 1,
+  demand: null,
+};
+
+// Demand curves for configs that turn traffic demand on
+export const rushHourDemand: TrafficDemand = {
+  // Morning and evening rush hours, a steady day and a quiet night
+  cars: [
+    0.1, 0.08, 0.06, 0.06, 0.08, 0.2, 0.5, 0.9, 1, 0.8, 0.6, 0.6, 0.65, 0.6,
+    0.6, 0.65, 0.8, 1, 0.95, 0.7, 0.5, 0.35, 0.25, 0.15,
+  ],
+  // Commuters at the rush hours and a busy lunchtime
+  pedestrians: [
+    0.05, 0.03, 0.02, 0.02, 0.03, 0.1, 0.3, 0.7, 0.8, 0.6, 0.6, 0.7, 0.9, 0.8,
+    0.6, 0.6, 0.7, 0.9, 0.8, 0.6, 0.45, 0.3, 0.2, 0.1,
+  ],
+};
+
+// Function to build a validated config from defaults and overrides
+export function createCityConfig(
+  overrides: Partial<CityConfig> = {}
+): CityConfig {
+  const config: CityConfig = { ...defaultCityConfig, ...overrides };
+  validateCityConfig(config);
+  return config;
+}
+
+// Function to check a config, throwing a descriptive error if it is invalid
+export function validateCityConfig(config: CityConfig) {
+  if (!Number.isFinite(config.gridSize) || config.gridSize <= 0) {
+    throw new Error(
+      `CityConfig.gridSize must be a positive number, got ${config.gridSize}`
+    );
+  }
+
+  if (!Number.isFinite(config.dayDuration) || config.dayDuration <= 0) {
+    throw new Error(
+      `CityConfig.dayDuration must be a positive number, got ${config.dayDuration}`
+    );
+  }
+
+  const { latitude, longitude } = config.location;
+  if (!(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) {
+    const got = JSON.stringify(config.location);
+    throw new Error(
+      `CityConfig.location needs a latitude in [-90, 90] and a longitude in [-180, 180], got ${got}`
+    );
+  }
+
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(config.startDate) ||
+    Number.isNaN(Date.parse(config.startDate))
+  ) {
+    throw new Error(
+      `CityConfig.startDate must be a date like "2025-03-20", got "${config.startDate}"`
+    );
+  }
+
+  if (!(Math.abs(config.utcOffset) <= 14)) {
+    throw new Error(
+      `CityConfig.utcOffset must be a number of hours in [-14, 14], got ${config.utcOffset}`
+    );
+  }
+
+  const weathers = ["clear", "overcast", "rain", "fog", "snow", "changing"];
+  if (!weathers.includes(config.weather)) {
+    throw new Error(
+      `CityConfig.weather must be one of ${weathers.join(", ")}, got "${
+        config.weather
+      }"`
+    );
+  }
+
+  const { green, yellow, allRed } = config.signalTimings;
+  if (!(green > 0) || !(yellow > 0) || !(allRed >= 0)) {
+    const got = JSON.stringify(config.signalTimings);
+    throw new Error(
+      `CityConfig.signalTimings needs positive green and yellow and a non-negative allRed, got ${got}`
+    );
+  }
+
+  if (config.greenWave && !(config.greenWave.speed > 0)) {
+    throw new Error(
+      `CityConfig.greenWave.speed must be positive, got ${config.greenWave.speed}`
+    );
+  }
+
+  requireInteger(config, "gridDivisions", 1);
+  requireInteger(config, "roadSpacing", 2);
+  requireInteger(config, "roadOffset", 0);
+  requireInteger(config, "carsPerRoad", 0);
+  requireInteger(config, "pedestriansPerRoad", 0);
+  requireInteger(config, "chunkRadius", 0);
+  requireInteger(config, "detailRadius", 0);
+
+  if (config.roadOffset >= config.roadSpacing) {
+    throw new Error(
+      `CityConfig.roadOffset (${config.roadOffset}) must be less than roadSpacing (${config.roadSpacing})`
+    );
+  }
+
+  if (config.detailRadius > config.chunkRadius) {
+    throw new Error(
+      `CityConfig.detailRadius (${config.detailRadius}) must not be more than chunkRadius (${config.chunkRadius})`
+    );
+  }
+
+  if (config.demand) {
+    const { demand } = config;
+    (["cars", "pedestrians"] as const).forEach((key) => {
+      const curve = demand[key];
+      if (
+        !Array.isArray(curve) ||
+        curve.length !== 24 ||
+        !curve.every((share) => Number.isFinite(share) && share >= 0)
+      ) {
+        throw new Error(
+          `CityConfig.demand.${key} must list 24 non-negative shares, one for each hour from midnight, got ${JSON.stringify(
+            curve
+          )}`
+        );
+      }
+    });
+  }
+
+  if (config.zoningMap) {
+    const uses = [
+      "downtown",
+      "residential",
+      "commercial",
+      "park",
+      "industrial",
+    ];
+    const { zoningMap, gridDivisions } = config;
+    const valid =
+      zoningMap.length === gridDivisions &&
+      zoningMap.every(
+        (row) =>
+          row.length === gridDivisions && row.every((use) => uses.includes(use))
+      );
+    if (!valid) {
+      throw new Error(
+        `CityConfig.zoningMap must have ${gridDivisions} rows of ${gridDivisions} land uses from ${uses.join(
+          ", "
+        )}`
+      );
+    }
+  }
+
+  if (config.roadMap) {
+    const { roadMap, gridDivisions } = config;
+    const valid =
+      roadMap.length === gridDivisions &&
+      roadMap.every(
+        (row) =>
+          row.length === gridDivisions &&
+          row.every((paved) => paved === true || paved === false)
+      );
+    if (!valid) {
+      throw new Error(
+        `CityConfig.roadMap must have ${gridDivisions} rows of ${gridDivisions} booleans`
+      );
+    }
+
+    // Roads are one cell wide and need a cell between their crossings, or
+    // the lanes between them would have no length
+    for (let row = 1; row < gridDivisions; row++) {
+      for (let column = 1; column < gridDivisions; column++) {
+        const block = [
+          [column - 1, row - 1],
+          [column, row - 1],
+          [column - 1, row],
+          [column, row],
+        ];
+        if (block.every(([i, j]) => roadMap[j][i])) {
+          throw new Error(
+            `CityConfig.roadMap paves every cell from ${column - 1}, ${row - 1} to ${column}, ${row}; roads are one cell wide`
+          );
+        }
+      }
+    }
+    for (let row = 0; row < gridDivisions; row++) {
+      for (let column = 0; column < gridDivisions; column++) {
+        if (!isCrossing(config, column, row)) continue;
+        const next = [
+          [column + 1, row],
+          [column, row + 1],
+        ].find(([i, j]) => isCrossing(config, i, j));
+        if (next) {
+          throw new Error(
+            `CityConfig.roadMap has road crossings next to each other at ${column}, ${row} and ${next[0]}, ${next[1]}; crossings need a cell between them`
+          );
+        }
+      }
+    }
+  }
+
+  (["lampposts", "benches", "trees"] as const).forEach((key) => {
+    const spacing = config[key];
+    if (
+      !Number.isInteger(spacing.every) ||
+      spacing.every < 1 ||
+      !Number.isInteger(spacing.offset) ||
+      spacing.offset < 0 ||
+      spacing.offset >= spacing.every
+    ) {
+      const got = JSON.stringify(spacing);
+      throw new Error(
+        `CityConfig.${key} must have an integer "every" >= 1 and an "offset" in [0, every), got ${got}`
+      );
+    }
+  });
+}
+
+// Function to check that a numeric config field is an integer >= min
+function requireInteger(
+  config: CityConfig,
+  key:
+    | "gridDivisions"
+    | "roadSpacing"
+    | "roadOffset"
+    | "carsPerRoad"
+    | "pedestriansPerRoad"
+    | "chunkRadius"
+    | "detailRadius",
+  min: number
+) {
+  const value = config[key];
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(
+      `CityConfig.${key} must be an integer >= ${min}, got ${value}`
+    );
+  }
+}
+
+// Size of a single grid cell in scene units
+export function getBlockSize(config: CityConfig) {
+  return config.gridSize / config.gridDivisions;
+}
+
+// Scene coordinate of the center of a grid row/column
+export function getCellCenter(config: CityConfig, index: number) {
+  const blockSize = getBlockSize(config);
+  return index * blockSize - config.gridSize / 2 + blockSize / 2;
+}
+
+// Whether the given grid row/column is picked by `roadSpacing` and
+// `roadOffset` to carry a road
+export function isRoadIndex(config: CityConfig, index: number) {
+  return index % config.roadSpacing === config.roadOffset;
+}
+
+// Whether a grid row (horizontal) or column (vertical) carries a road line:
+// one picked by `roadSpacing` and `roadOffset`, or with a road map, any
+// that has two neighbouring cells paved
+export function isRoadLine(config: CityConfig, axis: RoadAxis, index: number) {
+  const { roadMap, gridDivisions } = config;
+  if (!roadMap) return isRoadIndex(config, index);
+  if (index < 0 || index >= gridDivisions) return false;
+
+  for (let k = 1; k < gridDivisions; k++) {
+    if (
+      axis === "horizontal"
+        ? roadMap[index][k - 1] && roadMap[index][k]
+        : roadMap[k - 1][index] && roadMap[k][index]
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Whether a horizontal and a vertical road line cross at a paved cell
+export function isCrossing(config: CityConfig, column: number, row: number) {
+  return (
+    isRoadLine(config, "vertical", column) &&
+    isRoadLine(config, "horizontal", row) &&
+    isRoadCell(config, column, row)
+  );
+}
+
+// Grid row/column whose cell holds a scene coordinate, clamped to the grid
+export function getCellIndex(config: CityConfig, coordinate: number) {
+  const index = Math.floor(
+    (coordinate + config.gridSize / 2) / getBlockSize(config)
+  );
+  return Math.min(Math.max(index, 0), config.gridDivisions - 1);
+}
+
+// Whether a grid cell is paved: marked in the config's road map, or on a
+// road line picked by `roadSpacing` and `roadOffset` without one
+export function isRoadCell(config: CityConfig, column: number, row: number) {
+  if (config.roadMap) return config.roadMap[row][column];
+  return isRoadIndex(config, column) || isRoadIndex(config, row);
+}
+
+// Whether a street element with the given spacing goes at this grid cell
+export function isSpacedIndex(spacing: StreetElementSpacing, index: number) {
+  return index % spacing.every === spacing.offset;
+}
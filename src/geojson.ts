@@ -0,0 +1,340 @@
+// GeoJSON import. Turns a FeatureCollection of building footprints and
+// road center lines into a plain city layout in scene units: buildings are
+// polygons with a height, roads are polylines with a width and a number of
+// lanes. Coordinates are longitude/latitude in degrees and are projected
+// around the middle of the data, with north towards -z. Features that
+// cannot be used are reported rather than dropped silently. Roads meet
+// where their lines end or share a vertex, and the simulation builds its
+// road network from them, so cars and pedestrians use the imported roads.
+
+import { laneOffset } from "./sim/intersections";
+import type { Point } from "./sim/roadNetwork";
+
+// The subset of GeoJSON the importer reads
+type Position = number[]; // [longitude, latitude, altitude?]
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+}
+
+interface GeoJsonFeature {
+  type: "Feature";
+  geometry: GeoJsonGeometry | null;
+  properties: Record<string, unknown> | null;
+}
+
+export interface ImportedBuilding {
+  feature: number; // Index of the feature in the collection
+  outline: Point[]; // Footprint, without the closing point
+  holes: Point[][]; // Courtyards cut out of the footprint
+  height: number;
+}
+
+export interface ImportedRoad {
+  feature: number;
+  points: Point[]; // Center line
+  width: number;
+  lanes: number; // Lanes in both directions together
+  oneway: boolean; // Whether every lane runs along the line
+}
+
+// A feature the importer could not use, and why
+export interface SkippedFeature {
+  feature: number;
+  reason: string;
+}
+
+export interface CityLayout {
+  size: number; // Width and depth of a square that holds every feature
+  buildings: ImportedBuilding[];
+  roads: ImportedRoad[];
+  skipped: SkippedFeature[];
+}
+
+export interface GeoJsonImportOptions {
+  metersPerUnit?: number; // Real-world meters in one scene unit
+  levelHeight?: number; // Meters per storey for features with only levels
+  laneCount?: number; // Lanes on roads that do not say how many they have
+}
+
+const metersPerDegree = 111320; // Along the equator and any meridian
+const laneWidth = laneOffset * 2; // Same lane width as the grid roads
+
+// Function to import a GeoJSON document (as text) into a city layout,
+// throwing if it is not a FeatureCollection
+export function importGeoJson(
+  text: string,
+  options: GeoJsonImportOptions = {}
+): CityLayout {
+  const { metersPerUnit = 1, levelHeight = 3, laneCount = 2 } = options;
+
+  let data: { type?: unknown; features?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`GeoJSON is not valid JSON: ${(error as Error).message}`);
+  }
+  if (data?.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+    throw new Error(
+      `GeoJSON must be a FeatureCollection, got ${JSON.stringify(data?.type)}`
+    );
+  }
+  const features = data.features as GeoJsonFeature[];
+
+  // Project around the middle of the features that can be imported, so
+  // stray points elsewhere in the file do not pull the city off center
+  const positions: Position[] = [];
+  features.forEach((feature) => {
+    const type = feature?.geometry?.type;
+    const usable =
+      type === "LineString" ||
+      type === "MultiLineString" ||
+      ((type === "Polygon" || type === "MultiPolygon") &&
+        getBuildingHeight(feature.properties ?? {}, levelHeight) !== null);
+    if (usable) collectPositions(feature.geometry?.coordinates, positions);
+  });
+  const project = createProjection(positions, metersPerUnit);
+
+  const layout: CityLayout = { size: 0, buildings: [], roads: [], skipped: [] };
+  const skip = (feature: number, reason: string) =>
+    layout.skipped.push({ feature, reason });
+
+  features.forEach((feature, index) => {
+    const geometry = feature?.geometry;
+    const properties = feature?.properties ?? {};
+    if (!geometry) {
+      skip(index, "feature has no geometry");
+      return;
+    }
+
+    switch (geometry.type) {
+      case "Polygon":
+      case "MultiPolygon": {
+        const height = getBuildingHeight(properties, levelHeight);
+        if (height === null) {
+          skip(index, `${geometry.type} has no usable "height" or "levels"`);
+          return;
+        }
+        const polygons = (
+          geometry.type === "Polygon"
+            ? [geometry.coordinates]
+            : geometry.coordinates
+        ) as Position[][][];
+        if (!Array.isArray(polygons)) {
+          skip(index, `${geometry.type} has no coordinates`);
+          return;
+        }
+        polygons.forEach((rings) => {
+          if (!Array.isArray(rings)) {
+            skip(index, "polygon has no rings");
+            return;
+          }
+          const [outline, ...holes] = rings.map((ring) =>
+            toPoints(ring, project, true)
+          );
+          if (!outline || outline.length < 3) {
+            skip(index, "polygon has fewer than three corners");
+            return;
+          }
+          layout.buildings.push({
+            feature: index,
+            outline,
+            holes: holes.filter((hole) => hole.length >= 3),
+            height: height / metersPerUnit,
+          });
+        });
+        break;
+      }
+
+      case "LineString":
+      case "MultiLineString": {
+        const lines = (
+          geometry.type === "LineString"
+            ? [geometry.coordinates]
+            : geometry.coordinates
+        ) as Position[][];
+        if (!Array.isArray(lines)) {
+          skip(index, `${geometry.type} has no coordinates`);
+          return;
+        }
+        lines.forEach((line) => {
+          const points = toPoints(line, project, false);
+          if (points.length < 2) {
+            skip(index, "line has fewer than two points");
+            return;
+          }
+          layout.roads.push(
+            createRoad(index, points, properties, laneCount, metersPerUnit)
+          );
+        });
+        break;
+      }
+
+      default:
+        skip(index, `${geometry.type} geometry is not supported`);
+    }
+  });
+
+  layout.size = getLayoutSize(layout);
+  return layout;
+}
+
+// Function to gather every [longitude, latitude] pair in a coordinate array
+function collectPositions(coordinates: unknown, positions: Position[]) {
+  if (!Array.isArray(coordinates)) return;
+  if (typeof coordinates[0] === "number") {
+    positions.push(coordinates as Position);
+    return;
+  }
+  coordinates.forEach((child) => collectPositions(child, positions));
+}
+
+// Function to create an equirectangular projection centered on the middle
+// of the given positions. Good enough at neighborhood scale.
+function createProjection(positions: Position[], metersPerUnit: number) {
+  // Bounding box of the valid positions, found in one pass since spreading
+  // a large file's coordinates into Math.min would overflow the stack
+  let [west, east, south, north] = [Infinity, -Infinity, Infinity, -Infinity];
+  positions.filter(isValidPosition).forEach(([longitude, latitude]) => {
+    west = Math.min(west, longitude);
+    east = Math.max(east, longitude);
+    south = Math.min(south, latitude);
+    north = Math.max(north, latitude);
+  });
+  const centerLongitude = west <= east ? (west + east) / 2 : 0;
+  const centerLatitude = south <= north ? (south + north) / 2 : 0;
+  const xScale =
+    (metersPerDegree * Math.cos((centerLatitude * Math.PI) / 180)) /
+    metersPerUnit;
+  const zScale = metersPerDegree / metersPerUnit;
+
+  return ([longitude, latitude]: Position): Point => ({
+    x: (longitude - centerLongitude) * xScale,
+    z: -(latitude - centerLatitude) * zScale,
+  });
+}
+
+// Whether a position has a finite longitude and latitude in range
+function isValidPosition(position: unknown): position is Position {
+  if (!Array.isArray(position)) return false;
+  const [longitude, latitude] = position;
+  return (
+    Number.isFinite(longitude) &&
+    Number.isFinite(latitude) &&
+    Math.abs(longitude) <= 180 &&
+    Math.abs(latitude) <= 90
+  );
+}
+
+// Function to project a ring or line, dropping invalid and repeated
+// positions (and the closing position of a ring)
+function toPoints(
+  positions: Position[],
+  project: (position: Position) => Point,
+  closed: boolean
+) {
+  const points: Point[] = [];
+  if (!Array.isArray(positions)) return points;
+
+  positions.filter(isValidPosition).forEach((position) => {
+    const point = project(position);
+    const last = points[points.length - 1];
+    if (!last || last.x !== point.x || last.z !== point.z) points.push(point);
+  });
+
+  if (closed && points.length > 1) {
+    const [first, last] = [points[0], points[points.length - 1]];
+    if (first.x === last.x && first.z === last.z) points.pop();
+  }
+  return points;
+}
+
+// Function to read a number from a feature property, accepting strings
+// like "12" or "12 m"
+function readNumber(value: unknown) {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number > 0
+    ? number
+    : null;
+}
+
+// Function to get a building's height in meters from its "height", or from
+// its "levels" / "building:levels" times the storey height
+function getBuildingHeight(
+  properties: Record<string, unknown>,
+  levelHeight: number
+) {
+  const height = readNumber(properties.height);
+  if (height !== null) return height;
+
+  const levels =
+    readNumber(properties.levels) ?? readNumber(properties["building:levels"]);
+  return levels !== null ? levels * levelHeight : null;
+}
+
+// Function to build a road from a center line, with the lanes and width
+// its properties give or the defaults
+function createRoad(
+  feature: number,
+  points: Point[],
+  properties: Record<string, unknown>,
+  defaultLanes: number,
+  metersPerUnit: number
+): ImportedRoad {
+  const lanes = Math.max(
+    1,
+    Math.round(readNumber(properties.lanes) ?? defaultLanes)
+  );
+  const oneway = properties.oneway === "yes" || properties.oneway === true;
+  const widthMeters = readNumber(properties.width);
+  const width =
+    widthMeters !== null ? widthMeters / metersPerUnit : lanes * laneWidth;
+
+  return { feature, points, width, lanes, oneway };
+}
+
+// Function to offset a polyline sideways, to the right of its direction of
+// travel for positive offsets. Corners are mitred.
+export function offsetPolyline(points: Point[], offset: number): Point[] {
+  return points.map((point, index) => {
+    const previous = points[Math.max(index - 1, 0)];
+    const next = points[Math.min(index + 1, points.length - 1)];
+    const before =
+      getRightNormal(previous, point) ?? getRightNormal(point, next);
+    const after = getRightNormal(point, next) ?? before;
+    if (!before || !after) return { ...point };
+
+    // Mitre along the average normal, capped so sharp corners do not spike
+    const mx = before.x + after.x;
+    const mz = before.z + after.z;
+    const length = Math.hypot(mx, mz);
+    if (length < 1e-6) {
+      return { x: point.x + before.x * offset, z: point.z + before.z * offset };
+    }
+    const scale = (Math.min(2 / length, 4) / length) * offset;
+    return { x: point.x + mx * scale, z: point.z + mz * scale };
+  });
+}
+
+// Function to get the unit vector pointing right of the direction from one
+// point to another, or null if they coincide
+function getRightNormal(from: Point, to: Point): Point | null {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const length = Math.hypot(dx, dz);
+  if (length === 0) return null;
+  return { x: -dz / length, z: dx / length };
+}
+
+// Function to get the side of the smallest square, centered on the origin,
+// that holds every building and road with a little margin
+function getLayoutSize(layout: CityLayout) {
+  let extent = 0;
+  const include = (point: Point) => {
+    extent = Math.max(extent, Math.abs(point.x), Math.abs(point.z));
+  };
+  layout.buildings.forEach((building) => building.outline.forEach(include));
+  layout.roads.forEach((road) => road.points.forEach(include));
+  return Math.ceil((extent * 2 * 1.1) / 10) * 10;
+}
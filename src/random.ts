@@ -0,0 +1,74 @@
+// Seeded pseudo-random number generator shared by all city generators.
+// The same seed always produces the same sequence of values, so a city
+// can be reproduced exactly from its seed.
+
+export interface Random {
+  readonly seed: number;
+  // Returns a float in [0, 1)
+  next(): number;
+  // Returns a float in [min, max)
+  range(min: number, max: number): number;
+  // Returns an integer in [min, max)
+  int(min: number, max: number): number;
+  // Returns true with the given probability
+  chance(probability: number): boolean;
+  // Returns a random element of a non-empty array
+  pick<T>(items: readonly T[]): T;
+  // Returns the internal state, so the sequence can be saved
+  getState(): number;
+  // Continues the sequence from a state returned by getState
+  setState(state: number): void;
+}
+
+// Function to create a seeded random number generator (mulberry32)
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: seed >>> 0,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => Math.floor(min + next() * (max - min)),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    getState: () => state,
+    setState: (value) => {
+      state = value >>> 0;
+    },
+  };
+}
+
+// Function to turn a seed string (e.g. from the URL) into a numeric seed.
+// Numeric strings are used as-is, anything else is hashed (FNV-1a).
+export function parseSeed(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Function to pick a fresh seed when none was requested
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Function to derive an independent seed for a named sub-stream, so that
+// e.g. building generation and the simulation do not share one sequence
+export function deriveSeed(seed: number, label: string): number {
+  return (parseSeed(label) ^ Math.imul(seed >>> 0, 0x9e3779b1)) >>> 0;
+}
@@ -0,0 +1,202 @@
+// Registry of building archetypes. Each archetype describes one kind of
+// building: its footprint, how tall it grows, the colors it comes in, how
+// its windows are laid out and lit, and the factory that builds its mesh
+// (see massing.ts for the built-in ones).
+// The city generator and the window generator both look types up here, and
+// new kinds of building can be added with `registerArchetype`.
+
+import type * as THREE from "three";
+import type { Random } from "../random";
+import {
+  createBoxBuilding,
+  createResidentialBuilding,
+  createTowerBuilding,
+} from "./massing";
+
+// Box-shaped part of a building that windows are laid out over. `y` is the
+// height of its base above the ground.
+export interface BuildingVolume {
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  depth: number;
+  height: number;
+}
+
+// Where a building goes and how big it is: the center of its block and
+// the footprint and height of its main body
+export interface BuildingPlot {
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+  height: number;
+}
+
+// A built building: its scene object and the volumes that make it up
+export interface BuildingModel {
+  object: THREE.Object3D;
+  volumes: BuildingVolume[];
+}
+
+export interface WindowLayout {
+  size: number;
+  spacing: number; // Distance between window centers, across and up
+  color: number;
+  schedule: number[]; // Share of windows lit at each hour of the day (0-23)
+}
+
+export interface BuildingArchetype {
+  name: string;
+  footprint: { min: number; max: number }; // Side lengths, capped by the plot
+  height: { min: number; max: number }; // Heights are spread evenly between
+  palette: number[]; // Body colors, one picked per building
+  roughness: number;
+  metalness: number;
+  windows: WindowLayout | null; // No windows when null
+  create: (
+    archetype: BuildingArchetype,
+    plot: BuildingPlot,
+    rng: Random
+  ) => BuildingModel;
+}
+
+const archetypes = new Map<string, BuildingArchetype>();
+
+// Function to add an archetype to the registry
+export function registerArchetype(archetype: BuildingArchetype) {
+  if (archetypes.has(archetype.name)) {
+    throw new Error(
+      `Building archetype "${archetype.name}" is already registered`
+    );
+  }
+  if (archetype.palette.length === 0) {
+    throw new Error(
+      `Building archetype "${archetype.name}" needs at least one palette color`
+    );
+  }
+  archetypes.set(archetype.name, archetype);
+}
+
+// Function to look up an archetype, throwing for unknown building types
+export function getArchetype(name: string) {
+  const archetype = archetypes.get(name);
+  if (!archetype) {
+    const known = [...archetypes.keys()].join(", ");
+    throw new Error(
+      `Unknown building type "${name}"; registered types are: ${known}`
+    );
+  }
+  return archetype;
+}
+
+// Function to pick the footprint and height of a building from its
+// archetype's ranges. The footprint is no wider than the block, and the
+// height is scaled for the block's zone.
+export function pickBuildingPlot(
+  archetype: BuildingArchetype,
+  x: number,
+  z: number,
+  blockSize: number,
+  heightScale: number,
+  rng: Random
+): BuildingPlot {
+  const max = Math.min(archetype.footprint.max, blockSize);
+  const min = Math.min(archetype.footprint.min, max);
+  const { min: minHeight, max: maxHeight } = archetype.height;
+  return {
+    x,
+    z,
+    width: rng.range(min, max),
+    depth: rng.range(min, max),
+    height: rng.range(minHeight, maxHeight) * heightScale,
+  };
+}
+
+// Function to list the names of every registered archetype
+export function getArchetypeNames() {
+  return [...archetypes.keys()];
+}
+
+// Built-in archetypes
+
+registerArchetype({
+  name: "skyscraper",
+  footprint: { min: 6, max: 9.5 },
+  height: { min: 20, max: 50 },
+  palette: [0x44aaff, 0x4476ff],
+  roughness: 0.2,
+  metalness: 0.8,
+  windows: {
+    size: 0.8,
+    spacing: 3,
+    color: 0xffffcc,
+    // Offices fill up in the morning and empty out in the evening
+    schedule: [
+      0.05, 0.05, 0.05, 0.05, 0.05, 0.05, 0.2, 0.5, 0.85, 0.85, 0.85, 0.85,
+      0.85, 0.85, 0.85, 0.85, 0.85, 0.7, 0.45, 0.25, 0.15, 0.08, 0.08, 0.08,
+    ],
+  },
+  create: createTowerBuilding,
+});
+
+registerArchetype({
+  name: "apartment",
+  footprint: { min: 7, max: 10 },
+  height: { min: 10, max: 20 },
+  palette: [0xbbbbbb],
+  roughness: 0.5,
+  metalness: 0.2,
+  windows: {
+    size: 1.2,
+    spacing: 2.5,
+    color: 0xffffaa,
+    // Homes light up in the evening and go dark after midnight
+    schedule: [
+      0.35, 0.15, 0.08, 0.05, 0.05, 0.1, 0.35, 0.45, 0.25, 0.15, 0.15, 0.15,
+      0.15, 0.15, 0.15, 0.15, 0.25, 0.4, 0.6, 0.75, 0.85, 0.85, 0.7, 0.55,
+    ],
+  },
+  create: createResidentialBuilding,
+});
+
+registerArchetype({
+  name: "shop",
+  footprint: { min: 5, max: 9 },
+  height: { min: 3, max: 6 },
+  palette: [0xffaa44],
+  roughness: 0.7,
+  metalness: 0.1,
+  windows: {
+    size: 2,
+    spacing: 3,
+    color: 0xffff88,
+    // Shops open in the morning and close in the evening
+    schedule: [
+      0, 0, 0, 0, 0, 0, 0, 0, 0.3, 0.9, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95,
+      0.95, 0.95, 0.95, 0.95, 0.6, 0.1, 0, 0,
+    ],
+  },
+  create: createBoxBuilding,
+});
+
+registerArchetype({
+  name: "warehouse",
+  footprint: { min: 8, max: 10 },
+  height: { min: 4, max: 8 },
+  palette: [0x8a8f94, 0xa39a86, 0x6f7a80],
+  roughness: 0.8,
+  metalness: 0.4,
+  windows: {
+    size: 1,
+    spacing: 4,
+    color: 0xeeeeff,
+    // Day shift with a skeleton crew overnight
+    schedule: [
+      0.1, 0.1, 0.1, 0.1, 0.1, 0.2, 0.7, 0.9, 0.9, 0.9, 0.9, 0.9, 0.9, 0.9, 0.9,
+      0.9, 0.9, 0.6, 0.3, 0.1, 0.1, 0.1, 0.1, 0.1,
+    ],
+  },
+  create: createBoxBuilding,
+});
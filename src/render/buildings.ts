@@ -0,0 +1,202 @@
+import * as THREE from "three";
+import { getBlockSize, isRoadCell, type CityConfig } from "../config";
+import { createRandom, deriveSeed, type Random } from "../random";
+import { getZoneRules, pickBuildingType, type Zoning } from "../sim/zoning";
+import {
+  getArchetype,
+  pickBuildingPlot,
+  type BuildingPlot,
+} from "./archetypes";
+import { registerWindows, type LightRegistry } from "./lights";
+import { createTree } from "./streetElements";
+import {
+  addWindows,
+  createWindowLayers,
+  type WindowPlacements,
+} from "./windows";
+
+const lawnColor = 0x3a7d32; // Grass of the parks
+
+// A building, or a park, decided on by the city plan. Its seed drives
+// everything the massing and windows pick at random, so the same record
+// always builds the same building.
+export interface PlannedBuilding extends BuildingPlot {
+  type: string | null; // Archetype name, or null for a park
+  seed: number;
+}
+
+// Function to decide the buildings of various types and sizes, chosen by
+// the zone of each block. Park blocks get trees instead of a building.
+export function planBuildings(
+  config: CityConfig,
+  zoning: Zoning,
+  rng: Random
+): PlannedBuilding[] {
+  const { gridSize, gridDivisions } = config;
+  const buildings: PlannedBuilding[] = [];
+  const blockSize = getBlockSize(config);
+  const centerOffset = gridSize / 2;
+
+  for (let i = 0; i < gridDivisions; i++) {
+    for (let j = 0; j < gridDivisions; j++) {
+      // Skip some positions to create roads and spaces
+      if (isRoadCell(config, i, j)) continue;
+
+      const x = i * blockSize - centerOffset + blockSize / 2;
+      const z = j * blockSize - centerOffset + blockSize / 2;
+
+      // Determine building type from the block's zone
+      const rules = getZoneRules(zoning, i, j);
+      const type = pickBuildingType(rules, rng);
+      const plot = type
+        ? pickBuildingPlot(
+            getArchetype(type),
+            x,
+            z,
+            blockSize,
+            rules.heightScale,
+            rng
+          )
+        : { x, z, width: blockSize, depth: blockSize, height: 0 };
+
+      buildings.push({ ...plot, type, seed: rng.int(0, 4294967296) });
+    }
+  }
+
+  return buildings;
+}
+
+// Function to create the planned buildings and parks
+export function createBuildings(
+  scene: THREE.Object3D,
+  planned: PlannedBuilding[],
+  lights: LightRegistry
+) {
+  const buildings: THREE.Object3D[] = [];
+  const windows: WindowPlacements = new Map();
+
+  planned.forEach((plan, index) => {
+    const rng = createRandom(plan.seed);
+    // Separate stream so window patterns do not change the building
+    const windowRng = createRandom(deriveSeed(plan.seed, "windows"));
+
+    const building = plan.type
+      ? createBuildingByType(plan.type, plan, rng, windows, windowRng)
+      : createPark(plan, rng);
+    building.name = `${plan.type ?? "park"} ${index}`;
+    scene.add(building);
+    buildings.push(building);
+  });
+
+  // Windows of every building, drawn with one mesh per building type
+  createWindowLayers(windows).forEach((layer) => {
+    scene.add(layer.mesh);
+    registerWindows(lights, layer);
+  });
+
+  return buildings;
+}
+
+// Function to create stand-ins for the planned buildings to be seen from
+// afar: a box in its type's main color for each building and a flat lawn
+// for each park, all drawn as one instanced mesh without windows
+export function createSimplifiedBuildings(
+  scene: THREE.Object3D,
+  planned: PlannedBuilding[]
+) {
+  const mesh = new THREE.InstancedMesh(
+    new THREE.BoxGeometry(1, 1, 1).translate(0, 0.5, 0),
+    new THREE.MeshStandardMaterial({ roughness: 0.7, metalness: 0.2 }),
+    planned.length
+  );
+  const matrix = new THREE.Matrix4();
+  const color = new THREE.Color();
+
+  planned.forEach((plan, index) => {
+    const height = plan.type ? plan.height : 0.04;
+    matrix.makeScale(plan.width, height, plan.depth);
+    matrix.setPosition(plan.x, 0, plan.z);
+    mesh.setMatrixAt(index, matrix);
+    color.set(plan.type ? getArchetype(plan.type).palette[0] : lawnColor);
+    mesh.setColorAt(index, color);
+  });
+
+  mesh.name = "simplified buildings";
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  scene.add(mesh);
+  return mesh;
+}
+
+// Function to create a building of a registered type, throwing for types
+// that have no archetype
+function createBuildingByType(
+  type: string,
+  plot: BuildingPlot,
+  rng: Random,
+  windows: WindowPlacements,
+  windowRng: Random
+) {
+  const archetype = getArchetype(type);
+  const building = archetype.create(archetype, plot, rng);
+  const { object, volumes } = building;
+
+  // Add windows to buildings
+  const windowCount = archetype.windows
+    ? addWindows(windows, type, archetype.windows, volumes, windowRng)
+    : 0;
+
+  // Storeys are as tall as the window rows, or a typical 3 units
+  const storey = archetype.windows?.spacing ?? 3;
+  const floors = volumes.reduce(
+    (total, volume) => total + Math.floor(volume.height / storey),
+    0
+  );
+
+  // Details for inspecting the building
+  object.userData = {
+    kind: "building",
+    type,
+    height: Math.max(...volumes.map((volume) => volume.y + volume.height)),
+    floors,
+    windows: windowCount,
+  };
+
+  return object;
+}
+
+// Function to create a small park: a lawn with a few trees on it
+function createPark(plot: BuildingPlot, rng: Random) {
+  const park = new THREE.Group();
+  park.position.set(plot.x, 0, plot.z);
+
+  const lawn = new THREE.Mesh(
+    new THREE.PlaneGeometry(plot.width, plot.depth),
+    new THREE.MeshStandardMaterial({
+      color: lawnColor,
+      roughness: 1,
+      metalness: 0,
+    })
+  );
+  lawn.rotation.x = -Math.PI / 2;
+  lawn.position.y = 0.02; // Just above the ground plane
+  lawn.receiveShadow = true;
+  park.add(lawn);
+
+  // Keep the tree crowns inside the block
+  const spreadX = plot.width / 2 - 1.5;
+  const spreadZ = plot.depth / 2 - 1.5;
+  const trees = rng.int(2, 6);
+  for (let t = 0; t < trees; t++) {
+    const tree = createTree();
+    tree.position.set(
+      rng.range(-spreadX, spreadX),
+      0,
+      rng.range(-spreadZ, spreadZ)
+    );
+    park.add(tree);
+  }
+
+  park.userData = { kind: "park", trees };
+  return park;
+}
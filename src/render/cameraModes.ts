@@ -0,0 +1,405 @@
+// Camera modes. Orbit is the free overview driven by OrbitControls; chase
+// follows one car from behind; walk is first person at street level and
+// cannot pass through buildings; fly-through plays a keyframed path.
+// Switching modes blends the camera from where it was to where the new
+// mode wants it, so there are no cuts.
+
+import * as THREE from "three";
+import type { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import type { CitySimulation } from "../sim/simulation";
+import {
+  createFlyThrough,
+  getFlyThroughDuration,
+  sampleFlyThrough,
+  type FlyThrough,
+  type FlyThroughPath,
+} from "./flyThrough";
+
+export type CameraMode = "orbit" | "chase" | "walk" | "flyThrough";
+
+export interface CameraRig {
+  mode: CameraMode;
+  camera: THREE.PerspectiveCamera;
+  controls: OrbitControls;
+  orbitPosition: THREE.Vector3; // Where the orbit camera was left
+  // Pose the active mode wants the camera in
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  // Pose the camera is blending from after a switch, and for how long
+  blend: {
+    position: THREE.Vector3;
+    quaternion: THREE.Quaternion;
+    elapsed: number;
+  } | null;
+  chase: {
+    carId: number | null;
+    last: THREE.Vector3 | null; // Car position in the previous frame
+  };
+  walk: {
+    position: THREE.Vector3; // Eye position
+    yaw: number; // Rotation about the vertical axis, 0 looking along -z
+    pitch: number;
+    keys: Set<string>; // Movement keys held down
+    run: boolean;
+  };
+  flyThrough: FlyThrough;
+  flyThroughTime: number;
+  obstacles: THREE.Box3[]; // Building bounds the walk camera stays out of
+  extent: number; // Half the width of the city
+  area: THREE.Box2; // Ground the walk camera stays on, in x and z
+}
+
+const blendDuration = 1.2; // Seconds to blend between modes
+const chaseDistance = 10; // Behind the car
+const chaseHeight = 4; // Above the road
+const chaseLag = 4; // How quickly the chase camera catches up, per second
+const eyeHeight = 1.7;
+const walkSpeed = 5; // Units per second
+const runSpeed = 12;
+const walkRadius = 0.4; // Distance kept from walls
+const lookSpeed = 0.004; // Radians per pixel of mouse drag
+
+// Function to create the camera rig, starting in orbit mode
+export function createCameraRig(
+  camera: THREE.PerspectiveCamera,
+  controls: OrbitControls,
+  canvas: HTMLElement,
+  obstacles: THREE.Box3[],
+  extent: number,
+  flyThroughPath: FlyThroughPath
+) {
+  const rig: CameraRig = {
+    mode: "orbit",
+    camera,
+    controls,
+    orbitPosition: camera.position.clone(),
+    position: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+    blend: null,
+    chase: { carId: null, last: null },
+    walk: {
+      position: new THREE.Vector3(),
+      yaw: 0,
+      pitch: 0,
+      keys: new Set(),
+      run: false,
+    },
+    flyThrough: createFlyThrough(flyThroughPath),
+    flyThroughTime: 0,
+    obstacles,
+    extent,
+    area: new THREE.Box2(
+      new THREE.Vector2(-extent, -extent),
+      new THREE.Vector2(extent, extent)
+    ),
+  };
+
+  // Movement keys for walking, read every frame while they are held
+  const walkKeys = [
+    "w",
+    "a",
+    "s",
+    "d",
+    "arrowup",
+    "arrowleft",
+    "arrowdown",
+    "arrowright",
+  ];
+  window.addEventListener("keydown", (event) => {
+    rig.walk.run = event.shiftKey;
+    const key = event.key.toLowerCase();
+    if (rig.mode === "walk" && walkKeys.includes(key)) {
+      rig.walk.keys.add(key);
+      event.preventDefault();
+    }
+  });
+  window.addEventListener("keyup", (event) => {
+    rig.walk.run = event.shiftKey;
+    rig.walk.keys.delete(event.key.toLowerCase());
+  });
+  window.addEventListener("blur", () => rig.walk.keys.clear());
+
+  // Dragging looks around while walking
+  canvas.addEventListener("pointermove", (event) => {
+    if (rig.mode !== "walk" || event.buttons === 0) return;
+    rig.walk.yaw -= event.movementX * lookSpeed;
+    rig.walk.pitch = THREE.MathUtils.clamp(
+      rig.walk.pitch - event.movementY * lookSpeed,
+      -1.2,
+      1.2
+    );
+  });
+
+  return rig;
+}
+
+// Function to get the bounds of the buildings in a city, for walking
+export function getBuildingBounds(city: THREE.Object3D) {
+  return city.children
+    .filter((object) => object.userData.kind === "building")
+    .map((object) => new THREE.Box3().setFromObject(object));
+}
+
+// Function to switch camera mode. Chase follows the given car, or the next
+// car when already chasing. Returns false if the mode has nothing to show.
+export function setCameraMode(
+  rig: CameraRig,
+  mode: CameraMode,
+  sim: CitySimulation,
+  carId?: number
+) {
+  if (mode === "chase") {
+    const car =
+      carId !== undefined
+        ? sim.cars.find((candidate) => candidate.id === carId)
+        : getNextCar(sim, rig.mode === "chase" ? rig.chase.carId : null);
+    if (!car) return false;
+    rig.chase.carId = car.id;
+    rig.chase.last = null;
+  }
+  if (mode === rig.mode && mode !== "chase") return true;
+
+  const { camera, controls } = rig;
+  if (rig.mode === "orbit") rig.orbitPosition.copy(camera.position);
+  controls.enabled = false;
+
+  // Blend from wherever the camera is now
+  rig.blend = {
+    position: camera.position.clone(),
+    quaternion: camera.quaternion.clone(),
+    elapsed: 0,
+  };
+
+  if (mode === "walk" && rig.mode !== "walk") {
+    // Step down to the street below the camera, facing the same way
+    const { walk } = rig;
+    const direction = camera.getWorldDirection(new THREE.Vector3());
+    walk.position.set(camera.position.x, eyeHeight, camera.position.z);
+    walk.yaw = Math.atan2(-direction.x, -direction.z);
+    walk.pitch = 0;
+    keepOutOfBuildings(rig, walk.position);
+  }
+  if (mode === "flyThrough") rig.flyThroughTime = 0;
+
+  rig.mode = mode;
+  return true;
+}
+
+// Function to play a new fly-through path, switching to fly-through mode
+export function setFlyThrough(
+  rig: CameraRig,
+  path: FlyThroughPath,
+  sim: CitySimulation
+) {
+  rig.flyThrough = createFlyThrough(path);
+  rig.flyThroughTime = 0;
+  setCameraMode(rig, "flyThrough", sim);
+}
+
+// Function to get a short description of the active mode
+export function describeCameraMode(rig: CameraRig) {
+  switch (rig.mode) {
+    case "orbit":
+      return "Orbit";
+    case "chase":
+      return `Chase · car ${rig.chase.carId}`;
+    case "walk":
+      return "Walk";
+    case "flyThrough":
+      return "Fly-through";
+  }
+}
+
+// Function to move the camera for the active mode, `dt` real seconds after
+// the last frame
+export function updateCameraRig(
+  rig: CameraRig,
+  sim: CitySimulation,
+  dt: number
+) {
+  // Clamp long frames, like the first one after a hidden tab
+  dt = Math.min(dt, 0.1);
+  const { camera, controls } = rig;
+
+  switch (rig.mode) {
+    case "orbit":
+      if (!rig.blend) {
+        controls.update();
+        rig.target.copy(controls.target);
+        return;
+      }
+      rig.position.copy(rig.orbitPosition);
+      rig.target.copy(controls.target);
+      break;
+    case "chase":
+      if (!updateChase(rig, sim, dt)) {
+        // The car is gone; follow another one, or go back to the overview
+        if (!setCameraMode(rig, "chase", sim)) {
+          setCameraMode(rig, "orbit", sim);
+        }
+        return;
+      }
+      break;
+    case "walk":
+      updateWalk(rig, dt);
+      break;
+    case "flyThrough":
+      updateFlyThrough(rig, sim, dt);
+      break;
+  }
+
+  // Point the camera from the mode's position at its target
+  camera.position.copy(rig.position);
+  camera.lookAt(rig.target);
+
+  if (rig.blend) {
+    const { blend } = rig;
+    blend.elapsed += dt;
+    const t = THREE.MathUtils.smootherstep(blend.elapsed, 0, blendDuration);
+    const quaternion = camera.quaternion.clone();
+    camera.position.lerpVectors(blend.position, rig.position, t);
+    camera.quaternion.slerpQuaternions(blend.quaternion, quaternion, t);
+
+    if (blend.elapsed >= blendDuration) {
+      rig.blend = null;
+      // Hand the camera back to the orbit controls once it has arrived
+      if (rig.mode === "orbit") controls.enabled = true;
+    }
+  }
+}
+
+// Function to get the car after the given one, or the first car
+function getNextCar(sim: CitySimulation, carId: number | null) {
+  const index = sim.cars.findIndex((car) => car.id === carId);
+  return sim.cars[(index + 1) % sim.cars.length];
+}
+
+// Function to keep the chase camera behind its car. Returns false if the
+// car no longer exists.
+function updateChase(rig: CameraRig, sim: CitySimulation, dt: number) {
+  const { chase } = rig;
+  const car = sim.cars.find((candidate) => candidate.id === chase.carId);
+  if (!car) return false;
+
+  // Meshes face +x at heading 0
+  const forward = new THREE.Vector3(
+    Math.cos(car.heading),
+    0,
+    -Math.sin(car.heading)
+  );
+  const carPosition = new THREE.Vector3(car.x, 0, car.z);
+  const position = carPosition
+    .clone()
+    .addScaledVector(forward, -chaseDistance)
+    .setY(chaseHeight);
+  const target = carPosition.clone().addScaledVector(forward, 4).setY(1);
+
+  // Cars leaving the city re-enter at the opposite edge; cut straight
+  // there instead of sweeping across the whole city
+  const wrapped =
+    chase.last !== null && chase.last.distanceTo(carPosition) > rig.extent;
+  if (chase.last === null || wrapped) {
+    rig.position.copy(position);
+    rig.target.copy(target);
+  } else {
+    const follow = 1 - Math.exp(-chaseLag * dt);
+    rig.position.lerp(position, follow);
+    rig.target.lerp(target, follow);
+  }
+  chase.last = carPosition;
+  return true;
+}
+
+// Function to move the walking camera from the keys held down
+function updateWalk(rig: CameraRig, dt: number) {
+  const { walk } = rig;
+  let forward = 0;
+  let right = 0;
+  walk.keys.forEach((key) => {
+    if (key === "w" || key === "arrowup") forward += 1;
+    if (key === "s" || key === "arrowdown") forward -= 1;
+    if (key === "d" || key === "arrowright") right += 1;
+    if (key === "a" || key === "arrowleft") right -= 1;
+  });
+
+  const length = Math.hypot(forward, right);
+  if (length > 0) {
+    const step = ((walk.run ? runSpeed : walkSpeed) * dt) / length;
+    const sin = Math.sin(walk.yaw);
+    const cos = Math.cos(walk.yaw);
+    walk.position.x += (-sin * forward + cos * right) * step;
+    walk.position.z += (-cos * forward - sin * right) * step;
+    keepOutOfBuildings(rig, walk.position);
+  }
+
+  rig.position.copy(walk.position);
+  rig.target.set(
+    walk.position.x - Math.sin(walk.yaw) * Math.cos(walk.pitch),
+    walk.position.y + Math.sin(walk.pitch),
+    walk.position.z - Math.cos(walk.yaw) * Math.cos(walk.pitch)
+  );
+}
+
+// Function to push a walking position out of any building it is in or too
+// close to, sliding along the walls, and keep it on the ground there is
+function keepOutOfBuildings(rig: CameraRig, position: THREE.Vector3) {
+  rig.obstacles.forEach((box) => {
+    if (box.min.y > position.y || box.max.y < 0) return;
+
+    // Nearest point of the footprint
+    const x = THREE.MathUtils.clamp(position.x, box.min.x, box.max.x);
+    const z = THREE.MathUtils.clamp(position.z, box.min.z, box.max.z);
+    const dx = position.x - x;
+    const dz = position.z - z;
+    const distance = Math.hypot(dx, dz);
+
+    if (distance > 0) {
+      if (distance < walkRadius) {
+        position.x = x + (dx / distance) * walkRadius;
+        position.z = z + (dz / distance) * walkRadius;
+      }
+      return;
+    }
+
+    // Inside: leave through the nearest wall
+    const exits = [
+      { x: box.min.x - walkRadius, z: position.z },
+      { x: box.max.x + walkRadius, z: position.z },
+      { x: position.x, z: box.min.z - walkRadius },
+      { x: position.x, z: box.max.z + walkRadius },
+    ];
+    const exit = exits.reduce((best, candidate) =>
+      Math.hypot(candidate.x - position.x, candidate.z - position.z) <
+      Math.hypot(best.x - position.x, best.z - position.z)
+        ? candidate
+        : best
+    );
+    position.x = exit.x;
+    position.z = exit.z;
+  });
+
+  const { min, max } = rig.area;
+  position.x = THREE.MathUtils.clamp(position.x, min.x, max.x);
+  position.z = THREE.MathUtils.clamp(position.z, min.y, max.y);
+}
+
+// Function to play the fly-through, going back to orbit when a path that
+// does not loop ends
+function updateFlyThrough(rig: CameraRig, sim: CitySimulation, dt: number) {
+  const duration = getFlyThroughDuration(rig.flyThrough.path);
+  rig.flyThroughTime += dt;
+  if (rig.flyThroughTime >= duration) {
+    if (!rig.flyThrough.path.loop) {
+      sampleFlyThrough(rig.flyThrough, duration, rig.position, rig.target);
+      setCameraMode(rig, "orbit", sim);
+      return;
+    }
+    rig.flyThroughTime %= duration;
+  }
+  sampleFlyThrough(
+    rig.flyThrough,
+    rig.flyThroughTime,
+    rig.position,
+    rig.target
+  );
+}
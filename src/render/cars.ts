@@ -0,0 +1,87 @@
+import * as THREE from "three";
+import type { CarState } from "../sim/cars";
+import { registerHeadlights, type LightRegistry } from "./lights";
+
+// Function to create a car
+export function createCar(state: CarState, lights: LightRegistry) {
+  const car = new THREE.Group();
+
+  // Car body
+  const bodyGeometry = new THREE.BoxGeometry(4, 1, 2);
+  const bodyMaterial = new THREE.MeshStandardMaterial({
+    color: state.color,
+    roughness: 0.2,
+    metalness: 0.8,
+  });
+  const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
+  body.position.y = 0.5;
+  car.add(body);
+
+  // Car cabin
+  const cabinGeometry = new THREE.BoxGeometry(2, 0.8, 1.8);
+  const cabinMaterial = new THREE.MeshStandardMaterial({
+    color: 0x333333,
+    roughness: 0.1,
+    metalness: 0.9,
+    transparent: true,
+    opacity: 0.7,
+  });
+  const cabin = new THREE.Mesh(cabinGeometry, cabinMaterial);
+  cabin.position.set(0.5, 1.4, 0);
+  car.add(cabin);
+
+  // Car wheels
+  const wheelGeometry = new THREE.CylinderGeometry(0.4, 0.4, 0.4, 16);
+  const wheelMaterial = new THREE.MeshStandardMaterial({
+    color: 0x111111,
+    roughness: 0.9,
+    metalness: 0.1,
+  });
+
+  const wheelPositions = [
+    { x: -1.2, y: 0.4, z: -1.1 },
+    { x: 1.2, y: 0.4, z: -1.1 },
+    { x: -1.2, y: 0.4, z: 1.1 },
+    { x: 1.2, y: 0.4, z: 1.1 },
+  ];
+
+  wheelPositions.forEach((pos) => {
+    const wheel = new THREE.Mesh(wheelGeometry, wheelMaterial);
+    wheel.rotation.z = Math.PI / 2;
+    wheel.position.set(pos.x, pos.y, pos.z);
+    car.add(wheel);
+  });
+
+  // Headlights
+  const headlightGeometry = new THREE.SphereGeometry(0.2, 8, 8);
+  const headlightMaterial = new THREE.MeshStandardMaterial({
+    color: 0xffffdd,
+    emissive: 0xffffdd,
+    emissiveIntensity: 0.5,
+  });
+
+  const headlightPositions = [
+    { x: 2, y: 0.7, z: -0.6 },
+    { x: 2, y: 0.7, z: 0.6 },
+  ];
+
+  headlightPositions.forEach((pos) => {
+    const headlight = new THREE.Mesh(headlightGeometry, headlightMaterial);
+    headlight.position.set(pos.x, pos.y, pos.z);
+    car.add(headlight);
+  });
+  registerHeadlights(lights, car, { material: headlightMaterial });
+
+  // Lets the car be inspected; details are read from its simulation record
+  car.userData = { kind: "car", id: state.id };
+
+  // Cast and receive shadows
+  car.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.castShadow = true;
+      object.receiveShadow = true;
+    }
+  });
+
+  return car;
+}
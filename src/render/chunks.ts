@@ -0,0 +1,272 @@
+// Streaming of the chunks around the home city. Chunks within the config's
+// `chunkRadius` of the chunk the camera looks at are generated as the
+// camera moves and released once it has moved on. Those within
+// `detailRadius` get full buildings, street furniture and traffic of their
+// own; the rest only get roads and plain boxes for buildings. At most one
+// chunk is built per update, so moving about never stalls a frame for long.
+
+import * as THREE from "three";
+import {
+  createChunkSimulation,
+  getChunkAt,
+  getChunkConfig,
+  getChunkDistance,
+  getChunkKey,
+  getChunkOrigin,
+  getChunkSeed,
+  getChunkZoning,
+  getChunksAround,
+  stepChunkSimulation,
+  type ChunkCoord,
+} from "../sim/chunks";
+import type { Point } from "../sim/roadNetwork";
+import type { CitySimulation } from "../sim/simulation";
+import {
+  restoreChunkSnapshot,
+  type ChunkSimulation,
+  type ChunkSnapshot,
+  type SimulationSnapshot,
+} from "../sim/snapshot";
+import { createBuildings, createSimplifiedBuildings } from "./buildings";
+import { getBuildingBounds } from "./cameraModes";
+import { createCityPlan } from "./cityPlan";
+import {
+  createCityView,
+  disposeObject,
+  resetCityView,
+  syncCityView,
+  type CityView,
+} from "./cityView";
+import { unregisterLights, type LightRegistry } from "./lights";
+import { createRoads } from "./roads";
+import { createStreetElements } from "./streetElements";
+
+export interface CityChunk {
+  coord: ChunkCoord;
+  detail: boolean;
+  group: THREE.Group; // Placed at the chunk's origin
+  roads: THREE.Mesh[];
+  sim: CitySimulation | null; // Traffic of a detailed chunk
+  view: CityView | null;
+}
+
+export interface ChunkStreamer {
+  city: CitySimulation; // Simulation of the home chunk
+  scene: THREE.Scene;
+  lights: LightRegistry;
+  chunks: Map<string, CityChunk>; // Loaded chunks other than the home chunk
+  focus: ChunkCoord; // Chunk the camera looks at
+  homeDetail: boolean; // Whether the home chunk's traffic is close enough
+}
+
+const home: ChunkCoord = { x: 0, z: 0 };
+
+// Function to start streaming chunks around a city. Nothing is loaded
+// until the first update.
+export function createChunkStreamer(
+  scene: THREE.Scene,
+  city: CitySimulation,
+  lights: LightRegistry
+): ChunkStreamer {
+  return {
+    city,
+    scene,
+    lights,
+    chunks: new Map(),
+    focus: home,
+    homeDetail: true,
+  };
+}
+
+// Function to load, release and change the detail of chunks for the point
+// the camera looks at. Returns whether any chunk came or went. Chunks are
+// kept, and keep their detail, one chunk further out than they are made,
+// so the camera hovering over a border does not rebuild them every frame.
+export function updateChunkStreamer(streamer: ChunkStreamer, point: Point) {
+  const { config } = streamer.city;
+  const { chunkRadius, detailRadius } = config;
+  const focus = getChunkAt(config, point);
+  streamer.focus = focus;
+
+  const homeDistance = getChunkDistance(home, focus);
+  streamer.homeDetail =
+    homeDistance <= detailRadius ||
+    (streamer.homeDetail && homeDistance <= detailRadius + 1);
+
+  let changed = false;
+  streamer.chunks.forEach((chunk, key) => {
+    if (getChunkDistance(chunk.coord, focus) > chunkRadius + 1) {
+      releaseChunk(streamer, chunk);
+      streamer.chunks.delete(key);
+      changed = true;
+    }
+  });
+
+  // Build the nearest chunk that is missing or has the wrong detail
+  for (const coord of getChunksAround(focus, chunkRadius)) {
+    if (getChunkDistance(coord, home) === 0) continue;
+
+    const key = getChunkKey(coord);
+    const chunk = streamer.chunks.get(key);
+    const distance = getChunkDistance(coord, focus);
+    const detail = chunk?.detail
+      ? distance <= detailRadius + 1
+      : distance <= detailRadius;
+    if (chunk?.detail === detail) continue;
+
+    if (chunk) releaseChunk(streamer, chunk);
+    streamer.chunks.set(key, loadChunk(streamer, coord, detail));
+    return true;
+  }
+  return changed;
+}
+
+// Function to advance the traffic of the detailed chunks by `dt` seconds
+export function stepChunks(streamer: ChunkStreamer, dt: number) {
+  streamer.chunks.forEach((chunk) => {
+    if (chunk.sim) stepChunkSimulation(chunk.sim, dt);
+  });
+}
+
+// Function to bring the traffic meshes of the detailed chunks in line with
+// their simulations
+export function syncChunks(streamer: ChunkStreamer) {
+  streamer.chunks.forEach((chunk) => {
+    if (chunk.sim && chunk.view) {
+      syncCityView(chunk.view, chunk.sim, chunk.group);
+    }
+  });
+}
+
+// Function to get the simulations of the detailed chunks, to save them
+// with the city's
+export function getChunkSimulations(streamer: ChunkStreamer) {
+  return [...streamer.chunks.values()].flatMap(
+    ({ coord, sim }): ChunkSimulation[] => (sim ? [{ coord, sim }] : [])
+  );
+}
+
+// Function to replace the loaded chunks with the detailed chunks saved in a
+// snapshot of the city, once the city itself is restored. They come back
+// with their traffic; the rest are generated again from their seeds, at
+// the restored time, as the camera comes to them.
+export function restoreChunks(
+  streamer: ChunkStreamer,
+  snapshot: SimulationSnapshot
+) {
+  streamer.chunks.forEach((chunk) => releaseChunk(streamer, chunk));
+  streamer.chunks.clear();
+  snapshot.chunks.forEach((saved) => {
+    const coord = { x: saved.x, z: saved.z };
+    streamer.chunks.set(
+      getChunkKey(coord),
+      loadChunk(streamer, coord, true, saved)
+    );
+  });
+}
+
+// Function to get the road surfaces of every loaded chunk
+export function getChunkRoads(streamer: ChunkStreamer) {
+  return [...streamer.chunks.values()].flatMap((chunk) => chunk.roads);
+}
+
+// Function to get the bounds of the buildings in the detailed chunks, for
+// walking
+export function getChunkBuildingBounds(streamer: ChunkStreamer) {
+  return [...streamer.chunks.values()].flatMap((chunk) =>
+    chunk.detail ? getBuildingBounds(chunk.group) : []
+  );
+}
+
+// Function to get the ground covered by the home chunk and the loaded
+// chunks, as bounds in x and z
+export function getStreamedArea(streamer: ChunkStreamer) {
+  const { config } = streamer.city;
+  const half = config.gridSize / 2;
+  const area = new THREE.Box2(
+    new THREE.Vector2(-half, -half),
+    new THREE.Vector2(half, half)
+  );
+  streamer.chunks.forEach((chunk) => {
+    const origin = getChunkOrigin(config, chunk.coord);
+    area.expandByPoint(new THREE.Vector2(origin.x - half, origin.z - half));
+    area.expandByPoint(new THREE.Vector2(origin.x + half, origin.z + half));
+  });
+  return area;
+}
+
+// Function to find the simulation behind an object in a chunk, or null for
+// objects outside the chunks
+export function findChunkSimulation(
+  streamer: ChunkStreamer,
+  object: THREE.Object3D
+) {
+  for (const chunk of streamer.chunks.values()) {
+    let current: THREE.Object3D | null = object;
+    while (current && current !== chunk.group) current = current.parent;
+    if (current) return chunk.sim;
+  }
+  return null;
+}
+
+// Function to generate a chunk from its seed and add it to the scene. A
+// detailed chunk's traffic can be restored from a snapshot of it.
+function loadChunk(
+  streamer: ChunkStreamer,
+  coord: ChunkCoord,
+  detail: boolean,
+  saved?: ChunkSnapshot
+): CityChunk {
+  const { city, lights } = streamer;
+  const config = getChunkConfig(city.config);
+  const seed = getChunkSeed(city.seed, coord);
+  const sim = detail ? createChunkSimulation(city, coord) : null;
+  if (sim && saved) restoreChunkSnapshot({ coord, sim }, saved);
+  const plan = createCityPlan(
+    seed,
+    config,
+    sim?.zoning ?? getChunkZoning(config, seed)
+  );
+
+  const group = new THREE.Group();
+  group.name = `chunk ${getChunkKey(coord)}`;
+  const origin = getChunkOrigin(config, coord);
+  group.position.set(origin.x, 0, origin.z);
+  group.add(createGround(config.gridSize));
+
+  const roads = createRoads(group, config);
+  if (detail) {
+    createBuildings(group, plan.buildings, lights);
+    createStreetElements(group, plan.streetElements, lights, false);
+  } else {
+    createSimplifiedBuildings(group, plan.buildings);
+  }
+
+  streamer.scene.add(group);
+  group.updateMatrixWorld(true);
+  const view = sim ? createCityView(group, sim, lights) : null;
+  return { coord, detail, group, roads, sim, view };
+}
+
+// Function to take a chunk out of the scene and free what it owns
+function releaseChunk(streamer: ChunkStreamer, chunk: CityChunk) {
+  if (chunk.view) resetCityView(chunk.view, chunk.group);
+  streamer.scene.remove(chunk.group);
+  unregisterLights(streamer.lights, chunk.group);
+  disposeObject(chunk.group);
+}
+
+// Function to create the asphalt ground under a chunk
+function createGround(size: number) {
+  const ground = new THREE.Mesh(
+    new THREE.PlaneGeometry(size, size),
+    new THREE.MeshStandardMaterial({
+      color: 0x1a1a1a, // Asphalt color
+      roughness: 0.8,
+      metalness: 0.2,
+    })
+  );
+  ground.rotation.x = -Math.PI / 2;
+  ground.receiveShadow = true;
+  return ground;
+}
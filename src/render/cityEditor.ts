@@ -0,0 +1,420 @@
+// In-browser city editor. While edit mode is on, the block grid is shown
+// above the streets and clicks on the ground edit the city plan with the
+// active tool: buildings are placed, moved, retyped and deleted by grid
+// cell, roads are paved along any row or column between two clicked cells
+// or cleared a stretch at a time, and street furniture is dropped onto the
+// sidewalks. Every edit goes through the plan, so the city is rebuilt from
+// it and the edited layout saves as a plan file.
+
+import * as THREE from "three";
+import { getBlockSize, getCellCenter, getCellIndex } from "../config";
+import { getStretchAt, getStretchCells } from "../sim/roadLayout";
+import type { Point } from "../sim/roadNetwork";
+import type { Zoning } from "../sim/zoning";
+import type { CityPlan } from "./cityPlan";
+import {
+  createPlanHistory,
+  findBuilding,
+  clearRoad,
+  findStreetElement,
+  moveBuilding,
+  paveRoad,
+  placeBuilding,
+  placeStreetElement,
+  recordEdit,
+  redoEdit,
+  removeBuilding,
+  removeStreetElement,
+  setBuildingType,
+  undoEdit,
+  type PlanHistory,
+} from "./planEdits";
+import type { StreetElementKind } from "./streetElements";
+
+export type EditorTool =
+  "select" | "building" | "road" | StreetElementKind | "delete";
+
+export const editorTools: EditorTool[] = [
+  "select",
+  "building",
+  "road",
+  "lamppost",
+  "bench",
+  "tree",
+  "delete",
+];
+
+// Called when the plan changes, with whether the road layout changed too
+export type PlanListener = (plan: CityPlan, roadsChanged: boolean) => void;
+
+export interface CityEditor {
+  active: boolean;
+  tool: EditorTool;
+  buildingType: string | null; // Placed by the building tool; null for a park
+  plan: CityPlan;
+  zoning: Zoning;
+  history: PlanHistory;
+  selected: [number, number] | null; // Cell of the building to move or retype
+  roadStart: [number, number] | null; // First cell of a road being drawn
+  message: string; // What the last action did, or why it could not be done
+  grid: THREE.GridHelper;
+  hover: THREE.Mesh; // Cells the active tool would edit
+  selection: THREE.Mesh; // Cell of the selected building
+  onEdit: PlanListener;
+  onUpdate: () => void; // Set to refresh controls when the editor changes
+}
+
+const clickTolerance = 5; // Pixels the pointer may move for a click
+const markerHeight = 0.06; // Above the road markings
+const gridHeight = 0.05;
+const roadToolHint =
+  "Click a road to clear it, or two cells in a row or column to pave a " +
+  "road between them";
+
+// Function to set up the editor for a plan. It starts switched off.
+export function createCityEditor(
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  canvas: HTMLElement,
+  grid: THREE.GridHelper,
+  plan: CityPlan,
+  zoning: Zoning,
+  onEdit: PlanListener
+) {
+  const editor: CityEditor = {
+    active: false,
+    tool: "select",
+    buildingType: null,
+    plan,
+    zoning,
+    history: createPlanHistory(),
+    selected: null,
+    roadStart: null,
+    message: "",
+    grid,
+    hover: createMarker(0xffffff),
+    selection: createMarker(0xffff00),
+    onEdit,
+    onUpdate: () => {},
+  };
+  scene.add(editor.hover, editor.selection);
+
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  const ground = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+  const hit = new THREE.Vector3();
+  let downX = 0;
+  let downY = 0;
+
+  // Function to find the point on the ground under the pointer
+  const getGroundPoint = (event: PointerEvent): Point | null => {
+    const bounds = canvas.getBoundingClientRect();
+    pointer.set(
+      ((event.clientX - bounds.left) / bounds.width) * 2 - 1,
+      -((event.clientY - bounds.top) / bounds.height) * 2 + 1
+    );
+    raycaster.setFromCamera(pointer, camera);
+    if (!raycaster.ray.intersectPlane(ground, hit)) return null;
+
+    const half = editor.plan.config.gridSize / 2;
+    if (Math.abs(hit.x) > half || Math.abs(hit.z) > half) return null;
+    return { x: hit.x, z: hit.z };
+  };
+
+  canvas.addEventListener("pointermove", (event) => {
+    if (editor.active) showHover(editor, getGroundPoint(event));
+  });
+
+  canvas.addEventListener("pointerdown", (event) => {
+    downX = event.clientX;
+    downY = event.clientY;
+  });
+
+  canvas.addEventListener("pointerup", (event) => {
+    if (
+      !editor.active ||
+      event.button !== 0 ||
+      Math.hypot(event.clientX - downX, event.clientY - downY) > clickTolerance
+    ) {
+      return;
+    }
+
+    const point = getGroundPoint(event);
+    if (point) useTool(editor, point);
+    showHover(editor, point);
+  });
+
+  window.addEventListener("keydown", (event) => {
+    if (!editor.active) return;
+
+    const key = event.key.toLowerCase();
+    const command = event.ctrlKey || event.metaKey;
+    if (command && key === "z" && !event.shiftKey) {
+      undoCityEdit(editor);
+    } else if (command && (key === "y" || (key === "z" && event.shiftKey))) {
+      redoCityEdit(editor);
+    } else if (key === "delete" || key === "backspace") {
+      if (!editor.selected) return;
+      const [column, row] = editor.selected;
+      applyEdit(editor, (plan) => removeBuilding(plan, column, row));
+    } else if (key === "escape") {
+      selectCell(editor, null);
+      editor.roadStart = null;
+    } else {
+      return;
+    }
+    event.preventDefault();
+  });
+
+  return editor;
+}
+
+// Function to switch edit mode on or off
+export function setEditorActive(editor: CityEditor, active: boolean) {
+  editor.active = active;
+  editor.grid.position.y = active ? gridHeight : 0;
+  editor.hover.visible = false;
+  editor.roadStart = null;
+  if (!active) selectCell(editor, null);
+  editor.message = "";
+  editor.onUpdate();
+}
+
+// Function to pick the tool that clicks use
+export function setEditorTool(editor: CityEditor, tool: EditorTool) {
+  editor.tool = tool;
+  editor.message = tool === "road" ? roadToolHint : "";
+  editor.hover.visible = false;
+  editor.roadStart = null;
+  if (tool !== "select") selectCell(editor, null);
+  editor.onUpdate();
+}
+
+// Function to pick the building type placed by the building tool, or null
+// for parks. A selected building is changed to the type.
+export function setEditorBuildingType(editor: CityEditor, type: string | null) {
+  editor.buildingType = type;
+  if (editor.selected) {
+    const [column, row] = editor.selected;
+    applyEdit(editor, (plan) =>
+      setBuildingType(plan, editor.zoning, column, row, type)
+    );
+  } else {
+    editor.onUpdate();
+  }
+}
+
+// Function to make an edit to the plan and rebuild the city from the
+// result. Edits that throw leave the plan as it was and report why.
+export function applyEdit(
+  editor: CityEditor,
+  edit: (plan: CityPlan) => CityPlan
+) {
+  let plan: CityPlan;
+  try {
+    plan = edit(editor.plan);
+  } catch (error) {
+    editor.message = (error as Error).message;
+    editor.onUpdate();
+    return;
+  }
+  if (plan === editor.plan) return;
+
+  recordEdit(editor.history, editor.plan);
+  setPlan(editor, plan, "");
+}
+
+// Function to undo the last edit
+export function undoCityEdit(editor: CityEditor) {
+  const plan = undoEdit(editor.history, editor.plan);
+  if (plan) setPlan(editor, plan, "Undone");
+}
+
+// Function to redo the last undone edit
+export function redoCityEdit(editor: CityEditor) {
+  const plan = redoEdit(editor.history, editor.plan);
+  if (plan) setPlan(editor, plan, "Redone");
+}
+
+// Function to switch to a new plan and tell the listener
+function setPlan(editor: CityEditor, plan: CityPlan, message: string) {
+  const roadsChanged =
+    JSON.stringify(plan.config.roadMap) !==
+    JSON.stringify(editor.plan.config.roadMap);
+  editor.plan = plan;
+  editor.message = message;
+
+  // A selected building that was edited away is deselected
+  const { selected } = editor;
+  if (selected && findBuilding(plan, ...selected) === -1) {
+    selectCell(editor, null);
+  }
+
+  editor.onEdit(plan, roadsChanged);
+  editor.onUpdate();
+}
+
+// Function to edit the plan with the active tool at a point on the ground
+function useTool(editor: CityEditor, point: Point) {
+  const { config } = editor.plan;
+  const column = getCellIndex(config, point.x);
+  const row = getCellIndex(config, point.z);
+
+  switch (editor.tool) {
+    case "select": {
+      // Pick a building, then click an empty cell to move it there
+      const { selected } = editor;
+      if (findBuilding(editor.plan, column, row) !== -1) {
+        const same = selected?.[0] === column && selected?.[1] === row;
+        selectCell(editor, same ? null : [column, row]);
+        editor.onUpdate();
+      } else if (selected) {
+        applyEdit(editor, (plan) =>
+          moveBuilding(plan, selected, [column, row])
+        );
+        if (findBuilding(editor.plan, column, row) !== -1) {
+          selectCell(editor, [column, row]);
+        }
+      }
+      break;
+    }
+
+    case "building":
+      applyEdit(editor, (plan) =>
+        placeBuilding(plan, editor.zoning, column, row, editor.buildingType)
+      );
+      break;
+
+    case "road": {
+      // A click on a road clears its stretch; anywhere else starts a new
+      // road, paved when a second cell in line with it is clicked
+      const start = editor.roadStart;
+      editor.roadStart = null;
+      if (!start) {
+        const stretch = getStretchAt(config, column, row);
+        if (stretch) {
+          applyEdit(editor, (plan) => clearRoad(plan, stretch));
+        } else {
+          editor.roadStart = [column, row];
+          editor.message =
+            "Click another cell in the same row or column to pave the road";
+          editor.onUpdate();
+        }
+        break;
+      }
+
+      if (start[0] === column && start[1] === row) {
+        editor.message = roadToolHint;
+        editor.onUpdate();
+      } else if (start[1] === row) {
+        applyEdit(editor, (plan) =>
+          paveRoad(plan, "horizontal", row, start[0], column)
+        );
+      } else if (start[0] === column) {
+        applyEdit(editor, (plan) =>
+          paveRoad(plan, "vertical", column, start[1], row)
+        );
+      } else {
+        editor.message = "Roads run straight along a row or column";
+        editor.onUpdate();
+      }
+      break;
+    }
+
+    case "delete": {
+      // Street furniture near the click first, then the cell's building
+      const element = findStreetElement(editor.plan, point);
+      applyEdit(editor, (plan) =>
+        element !== -1
+          ? removeStreetElement(plan, element)
+          : removeBuilding(plan, column, row)
+      );
+      break;
+    }
+
+    default: {
+      const kind = editor.tool;
+      applyEdit(editor, (plan) => placeStreetElement(plan, kind, point));
+    }
+  }
+}
+
+// Function to select a building's cell, or clear the selection with null
+function selectCell(editor: CityEditor, cell: [number, number] | null) {
+  editor.selected = cell;
+  editor.selection.visible = cell !== null;
+  if (cell) coverCells(editor, editor.selection, [cell]);
+}
+
+// Function to outline what the active tool would edit at a point
+function showHover(editor: CityEditor, point: Point | null) {
+  const { config } = editor.plan;
+  if (!point) {
+    editor.hover.visible = false;
+    return;
+  }
+
+  const column = getCellIndex(config, point.x);
+  const row = getCellIndex(config, point.z);
+  if (editor.tool === "road") {
+    // The road being drawn so far, or the stretch a click would clear
+    const start = editor.roadStart;
+    const stretch = start ? null : getStretchAt(config, column, row);
+    const inLine = start && (start[0] === column || start[1] === row);
+    editor.hover.visible = true;
+    coverCells(
+      editor,
+      editor.hover,
+      stretch
+        ? getStretchCells(config, stretch)
+        : inLine
+        ? [start, [column, row]]
+        : [[column, row]]
+    );
+    return;
+  }
+
+  editor.hover.visible = true;
+  coverCells(editor, editor.hover, [[column, row]]);
+}
+
+// Function to stretch a marker over the rectangle spanned by some cells
+function coverCells(
+  editor: CityEditor,
+  marker: THREE.Mesh,
+  cells: [number, number][]
+) {
+  const { config } = editor.plan;
+  const blockSize = getBlockSize(config);
+  const columns = cells.map(([column]) => column);
+  const rows = cells.map(([, row]) => row);
+  const low = [Math.min(...columns), Math.min(...rows)];
+  const high = [Math.max(...columns), Math.max(...rows)];
+
+  marker.position.set(
+    (getCellCenter(config, low[0]) + getCellCenter(config, high[0])) / 2,
+    markerHeight,
+    (getCellCenter(config, low[1]) + getCellCenter(config, high[1])) / 2
+  );
+  marker.scale.set(
+    (high[0] - low[0] + 1) * blockSize,
+    (high[1] - low[1] + 1) * blockSize,
+    1
+  );
+}
+
+// Function to create a flat, see-through marker one unit square
+function createMarker(color: number) {
+  const marker = new THREE.Mesh(
+    new THREE.PlaneGeometry(1, 1),
+    new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.25,
+      depthWrite: false,
+    })
+  );
+  marker.rotation.x = -Math.PI / 2;
+  marker.visible = false;
+  return marker;
+}
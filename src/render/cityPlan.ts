@@ -0,0 +1,92 @@
+// City plan: a compact, versioned JSON record of everything that was placed
+// in a generated city. Buildings keep their archetype, position, size and
+// the seed of their details; street elements keep their placement; roads
+// are listed as center-line segments. Loading a plan back rebuilds the
+// same city exactly, and the plan's seed and config restore the same
+// simulation.
+
+import { createCityConfig, type CityConfig } from "../config";
+import { createRandom, deriveSeed } from "../random";
+import type { Zoning } from "../sim/zoning";
+import { getArchetype } from "./archetypes";
+import { planBuildings, type PlannedBuilding } from "./buildings";
+import { getRoadSegments, type PlannedRoad } from "./roads";
+import {
+  planStreetElements,
+  type PlannedStreetElement,
+} from "./streetElements";
+
+export const cityPlanVersion = 1;
+
+export interface CityPlan {
+  version: number;
+  seed: number;
+  config: CityConfig;
+  buildings: PlannedBuilding[];
+  roads: PlannedRoad[]; // Built from `config`; listed for other tools
+  streetElements: PlannedStreetElement[];
+}
+
+// Function to plan a city from its seed, config and zoning
+export function createCityPlan(
+  seed: number,
+  config: CityConfig,
+  zoning: Zoning
+): CityPlan {
+  return {
+    version: cityPlanVersion,
+    seed,
+    config,
+    buildings: planBuildings(
+      config,
+      zoning,
+      createRandom(deriveSeed(seed, "buildings"))
+    ),
+    roads: getRoadSegments(config),
+    streetElements: planStreetElements(
+      config,
+      zoning,
+      createRandom(deriveSeed(seed, "streetElements"))
+    ),
+  };
+}
+
+// Function to write a plan as compact JSON
+export function serializeCityPlan(plan: CityPlan) {
+  return JSON.stringify(plan);
+}
+
+// Function to read a plan written by `serializeCityPlan`, throwing a
+// descriptive error if it is not one this version can build
+export function parseCityPlan(text: string): CityPlan {
+  let plan: CityPlan;
+  try {
+    plan = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`City plan is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (plan?.version !== cityPlanVersion) {
+    throw new Error(
+      `City plan version ${plan?.version} is not supported, expected ${cityPlanVersion}`
+    );
+  }
+  if (
+    !Number.isInteger(plan.seed) ||
+    !Array.isArray(plan.buildings) ||
+    !Array.isArray(plan.roads) ||
+    !Array.isArray(plan.streetElements)
+  ) {
+    throw new Error(
+      "City plan needs a seed and buildings, roads and streetElements lists"
+    );
+  }
+
+  // Throws for invalid configs and unknown building types
+  const config = createCityConfig(plan.config);
+  plan.buildings.forEach((building) => {
+    if (building.type !== null) getArchetype(building.type);
+  });
+
+  return { ...plan, config };
+}
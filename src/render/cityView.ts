@@ -0,0 +1,145 @@
+// Render layer for the simulated parts of the city. Meshes are created from
+// the plain simulation records and updated from them every frame; the
+// simulation never reads anything back from the scene.
+
+import * as THREE from "three";
+import type { CitySimulation } from "../sim/simulation";
+import { createCar } from "./cars";
+import { unregisterLights, type LightRegistry } from "./lights";
+import { createPedestrian } from "./pedestrians";
+import { createTrafficLight, updateTrafficLightMesh } from "./trafficLights";
+
+export interface CityView {
+  cars: Map<number, THREE.Object3D>;
+  pedestrians: Map<number, THREE.Object3D>;
+  trafficLights: Map<number, THREE.Object3D>;
+  lights: LightRegistry; // Where car headlights are registered
+}
+
+// Function to create the meshes for every simulated element
+export function createCityView(
+  scene: THREE.Object3D,
+  sim: CitySimulation,
+  lights: LightRegistry
+) {
+  const view: CityView = {
+    cars: new Map(),
+    pedestrians: new Map(),
+    trafficLights: new Map(),
+    lights,
+  };
+
+  syncCityView(view, sim, scene);
+  return view;
+}
+
+// Function to bring the meshes in line with the simulation state
+export function syncCityView(
+  view: CityView,
+  sim: CitySimulation,
+  scene: THREE.Object3D
+) {
+  syncMeshes(
+    scene,
+    view,
+    view.cars,
+    sim.cars,
+    (car) => createCar(car, view.lights),
+    (mesh, car) => {
+      mesh.position.set(car.x, 0.6, car.z);
+      mesh.rotation.y = car.heading;
+    }
+  );
+
+  syncMeshes(
+    scene,
+    view,
+    view.pedestrians,
+    sim.pedestrians.filter((pedestrian) => pedestrian.outdoors),
+    createPedestrian,
+    (mesh, pedestrian) => {
+      mesh.position.set(pedestrian.x, 0, pedestrian.z);
+      mesh.rotation.y = pedestrian.heading;
+    }
+  );
+
+  syncMeshes(
+    scene,
+    view,
+    view.trafficLights,
+    sim.trafficLights,
+    createTrafficLight,
+    (mesh, trafficLight) => {
+      mesh.position.set(trafficLight.x, 0, trafficLight.z);
+      // Lamps face the traffic on the road this head controls
+      mesh.rotation.y = trafficLight.axis === "horizontal" ? Math.PI / 2 : 0;
+      updateTrafficLightMesh(mesh, trafficLight);
+    }
+  );
+}
+
+// Function to remove every mesh so the next sync builds them all again,
+// e.g. after the simulation state was replaced by a snapshot
+export function resetCityView(view: CityView, scene: THREE.Object3D) {
+  [view.cars, view.pedestrians, view.trafficLights].forEach((meshes) => {
+    meshes.forEach((mesh) => removeMesh(scene, view, mesh));
+    meshes.clear();
+  });
+}
+
+// Function to keep a set of meshes matched to records by id: meshes are
+// added for new records, removed for records that are gone, and updated
+function syncMeshes<T extends { id: number }>(
+  scene: THREE.Object3D,
+  view: CityView,
+  meshes: Map<number, THREE.Object3D>,
+  records: T[],
+  create: (record: T) => THREE.Object3D,
+  update: (mesh: THREE.Object3D, record: T) => void
+) {
+  const seen = new Set<number>();
+
+  records.forEach((record) => {
+    seen.add(record.id);
+
+    let mesh = meshes.get(record.id);
+    if (!mesh) {
+      mesh = create(record);
+      meshes.set(record.id, mesh);
+      scene.add(mesh);
+    }
+
+    update(mesh, record);
+  });
+
+  meshes.forEach((mesh, id) => {
+    if (!seen.has(id)) {
+      removeMesh(scene, view, mesh);
+      meshes.delete(id);
+    }
+  });
+}
+
+// Function to take a mesh out of the scene and free what it owns
+function removeMesh(
+  scene: THREE.Object3D,
+  view: CityView,
+  mesh: THREE.Object3D
+) {
+  scene.remove(mesh);
+  unregisterLights(view.lights, mesh);
+  disposeObject(mesh);
+}
+
+// Function to free the GPU resources of a mesh hierarchy
+export function disposeObject(object: THREE.Object3D) {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      const materials = Array.isArray(child.material)
+        ? child.material
+        : [child.material];
+      materials.forEach((material) => material.dispose());
+    }
+  });
+}
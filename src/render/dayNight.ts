@@ -0,0 +1,108 @@
+import * as THREE from "three";
+import type { CelestialPosition, SkyState } from "../astronomy";
+import type { LightRegistry } from "./lights";
+import { updateWindowSchedule } from "./windows";
+
+// Lights of the sky itself
+export interface SkyLights {
+  sun: THREE.DirectionalLight;
+  moon: THREE.DirectionalLight;
+  ambient: THREE.AmbientLight;
+}
+
+// Sky colors, allocated once and blended into `skyColor` every frame
+const skyColors = {
+  day: new THREE.Color(0x87ceeb), // Sky blue
+  sunset: new THREE.Color(0xff7f50), // Coral/orange
+  night: new THREE.Color(0x000033), // Dark blue
+};
+const skyColor = new THREE.Color();
+
+const radians = Math.PI / 180;
+const lightDistance = 100; // Distance of the sun and moon lights from the city
+
+const windowDayIntensity = 0.5;
+const windowNightIntensity = 1;
+const moonlightIntensity = 0.15; // Directional light from a full moon
+
+// Function to update the day/night cycle from the positions of the sun and
+// moon and the local hour of the day (0-24)
+export function updateDayNightCycle(
+  sky: SkyState,
+  hour: number,
+  skyLights: SkyLights,
+  scene: THREE.Scene,
+  lights: LightRegistry
+) {
+  const sunElevation = sky.sun.elevation / radians; // Degrees
+
+  // Sunlight fades out as the sun sinks towards the horizon
+  placeSkyLight(skyLights.sun, sky.sun);
+  const daylight = Math.min(1, Math.max(0, Math.sin(sky.sun.elevation) * 3));
+  skyLights.sun.intensity = daylight;
+
+  // Dim moonlight once the sun is down, brighter the fuller the moon
+  placeSkyLight(skyLights.moon, sky.moon);
+  const moonUp = Math.min(1, Math.max(0, Math.sin(sky.moon.elevation) * 3));
+  skyLights.moon.intensity =
+    moonlightIntensity * sky.moonIllumination * moonUp * (1 - daylight);
+
+  // Scattered light through civil twilight (sun down to -6 degrees)
+  const twilight = Math.min(1, Math.max(0, (sunElevation + 6) / 12));
+  skyLights.ambient.intensity = 0.1 + 0.2 * twilight;
+
+  // Update sky color based on the sun's elevation
+  if (sunElevation > 10) {
+    // Day
+    skyColor.copy(skyColors.day);
+  } else if (sunElevation > 0) {
+    // Sunset/sunrise transition
+    skyColor.lerpColors(skyColors.sunset, skyColors.day, sunElevation / 10);
+  } else if (sunElevation > -6) {
+    // Night/sunset transition through civil twilight
+    const t = (sunElevation + 6) / 6;
+    skyColor.lerpColors(skyColors.night, skyColors.sunset, t);
+  } else {
+    // Night
+    skyColor.copy(skyColors.night);
+  }
+
+  scene.background = skyColor;
+
+  // Street lights come on around sunset and are fully on by dusk
+  const lampIntensity = Math.min(1, Math.max(0, (4 - sunElevation) / 10));
+  lights.streetLamps.forEach((lamp) => {
+    lamp.light.intensity = lampIntensity;
+    lamp.bulb.emissiveIntensity = lampIntensity;
+  });
+
+  // Headlights turn on when the sun is low
+  const headlightIntensity = sunElevation < 3 ? 1 : 0;
+  lights.headlights.forEach((headlights) => {
+    headlights.material.emissiveIntensity = headlightIntensity;
+  });
+
+  // Windows switch on and off with the hour, and lit ones glow brighter as
+  // it gets dark
+  const darkness = 1 - twilight;
+  const windowIntensity =
+    windowDayIntensity + (windowNightIntensity - windowDayIntensity) * darkness;
+  lights.windows.forEach((windows) => {
+    updateWindowSchedule(windows, hour);
+    windows.material.emissiveIntensity = windowIntensity;
+  });
+}
+
+// Function to place a directional light in the direction of a body in the
+// sky (+x points east, -z north)
+function placeSkyLight(
+  light: THREE.DirectionalLight,
+  position: CelestialPosition
+) {
+  const horizontal = Math.cos(position.elevation) * lightDistance;
+  light.position.set(
+    horizontal * Math.sin(position.azimuth),
+    Math.sin(position.elevation) * lightDistance,
+    -horizontal * Math.cos(position.azimuth)
+  );
+}
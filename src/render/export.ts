@@ -0,0 +1,13 @@
+// Export of the rendered city to a binary glTF (GLB) file. Objects keep
+// their names and materials; instanced windows are written with the
+// EXT_mesh_gpu_instancing extension.
+
+import type * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+
+// Function to write the given objects, and everything under them, as GLB
+export async function exportGlb(objects: THREE.Object3D[]) {
+  const exporter = new GLTFExporter();
+  const glb = await exporter.parseAsync(objects, { binary: true });
+  return glb as ArrayBuffer;
+}
@@ -0,0 +1,143 @@
+// Fly-through paths for the camera: keyframes of where the camera is and
+// what it looks at, joined by smooth Catmull-Rom splines and played back
+// over time. Paths are loaded from JSON like
+//
+//   { "loop": true, "keyframes": [
+//     { "time": 0, "position": [60, 40, 60], "target": [0, 0, 0] }, ... ] }
+//
+// A looping path restarts from its first keyframe, so it should end where
+// it starts.
+
+import * as THREE from "three";
+import type { CityConfig } from "../config";
+
+type Vector = [number, number, number];
+
+export interface FlyThroughKeyframe {
+  time: number; // Seconds from the start of the path
+  position: Vector; // Where the camera is
+  target: Vector; // Point the camera looks at
+}
+
+export interface FlyThroughPath {
+  loop: boolean;
+  keyframes: FlyThroughKeyframe[]; // In increasing time order
+}
+
+// A path with the splines through its keyframes
+export interface FlyThrough {
+  path: FlyThroughPath;
+  positions: THREE.CatmullRomCurve3;
+  targets: THREE.CatmullRomCurve3;
+}
+
+// Function to read a path from JSON, throwing a descriptive error if it
+// cannot be played
+export function parseFlyThrough(text: string): FlyThroughPath {
+  let path: FlyThroughPath;
+  try {
+    path = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Fly-through is not valid JSON: ${(error as Error).message}`
+    );
+  }
+
+  if (!Array.isArray(path?.keyframes) || path.keyframes.length < 2) {
+    throw new Error(
+      "Fly-through needs a keyframes list with at least two keyframes"
+    );
+  }
+  path.keyframes.forEach((keyframe, index) => {
+    if (
+      !Number.isFinite(keyframe?.time) ||
+      !isVector(keyframe.position) ||
+      !isVector(keyframe.target)
+    ) {
+      throw new Error(
+        `Fly-through keyframe ${index} needs a time and [x, y, z] position and target`
+      );
+    }
+    if (index > 0 && keyframe.time <= path.keyframes[index - 1].time) {
+      throw new Error(
+        `Fly-through keyframe ${index} must come after keyframe ${index - 1}`
+      );
+    }
+  });
+
+  return { loop: path.loop === true, keyframes: path.keyframes };
+}
+
+// Whether a value is an [x, y, z] array of finite numbers
+function isVector(value: unknown): value is Vector {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((number) => Number.isFinite(number))
+  );
+}
+
+// Function to create a looping path that circles the city, dipping down
+// towards the streets on one side
+export function createOverviewFlyThrough(config: CityConfig): FlyThroughPath {
+  const radius = config.gridSize * 0.6;
+  const steps = 8;
+  const keyframes: FlyThroughKeyframe[] = [];
+
+  for (let step = 0; step <= steps; step++) {
+    const angle = (step / steps) * Math.PI * 2;
+    const height = 25 + 20 * Math.cos(angle);
+    keyframes.push({
+      time: step * 5,
+      position: [Math.cos(angle) * radius, height, Math.sin(angle) * radius],
+      target: [0, 0, 0],
+    });
+  }
+  return { loop: true, keyframes };
+}
+
+// Function to build the splines for a path
+export function createFlyThrough(path: FlyThroughPath): FlyThrough {
+  const toVector = ([x, y, z]: Vector) => new THREE.Vector3(x, y, z);
+  return {
+    path,
+    positions: new THREE.CatmullRomCurve3(
+      path.keyframes.map((keyframe) => toVector(keyframe.position))
+    ),
+    targets: new THREE.CatmullRomCurve3(
+      path.keyframes.map((keyframe) => toVector(keyframe.target))
+    ),
+  };
+}
+
+// Function to get the length of a path in seconds
+export function getFlyThroughDuration(path: FlyThroughPath) {
+  const { keyframes } = path;
+  return keyframes[keyframes.length - 1].time - keyframes[0].time;
+}
+
+// Function to get the camera position and target a path has at a time.
+// Each keyframe is reached exactly at its time.
+export function sampleFlyThrough(
+  flyThrough: FlyThrough,
+  time: number,
+  position: THREE.Vector3,
+  target: THREE.Vector3
+) {
+  const { keyframes } = flyThrough.path;
+  const t = keyframes[0].time + time;
+
+  // Keyframe that starts the stretch the time falls in
+  let index = 0;
+  while (index < keyframes.length - 2 && t >= keyframes[index + 1].time) {
+    index++;
+  }
+  const { time: start } = keyframes[index];
+  const { time: end } = keyframes[index + 1];
+  const along = THREE.MathUtils.clamp((t - start) / (end - start), 0, 1);
+
+  // Curve points are spaced evenly in the spline's parameter
+  const u = (index + along) / (keyframes.length - 1);
+  flyThrough.positions.getPoint(u, position);
+  flyThrough.targets.getPoint(u, target);
+}
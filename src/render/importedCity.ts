@@ -0,0 +1,127 @@
+// Meshes for a city layout imported from GeoJSON: extruded building
+// footprints, road surfaces that follow the imported center lines, and
+// markings between the lanes of each road. The simulation runs its traffic
+// on the same lines (see sim/importedRoads.ts), with the lanes where the
+// markings put them.
+
+import * as THREE from "three";
+import { offsetPolyline, type CityLayout } from "../geojson";
+import type { Point } from "../sim/roadNetwork";
+
+// Function to create the buildings and roads of an imported layout. Returns
+// the road surfaces so the weather can wet them like the grid roads.
+export function createImportedCity(scene: THREE.Object3D, layout: CityLayout) {
+  const buildingMaterial = new THREE.MeshStandardMaterial({
+    color: 0xbbbbbb,
+    roughness: 0.5,
+    metalness: 0.2,
+  });
+  const roadMaterial = new THREE.MeshStandardMaterial({
+    color: 0x444444,
+    roughness: 0.6,
+    metalness: 0.3,
+  });
+  const markingMaterial = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    roughness: 0.4,
+    metalness: 0,
+  });
+
+  const buildings = layout.buildings.map((building) => {
+    const shape = new THREE.Shape(toShapePoints(building.outline));
+    building.holes.forEach((hole) =>
+      shape.holes.push(new THREE.Path(toShapePoints(hole)))
+    );
+
+    // Extrude upwards: the shape lies in x/-z and is turned to lie flat
+    const geometry = new THREE.ExtrudeGeometry(shape, {
+      depth: building.height,
+      bevelEnabled: false,
+    });
+    const mesh = new THREE.Mesh(geometry, buildingMaterial);
+    mesh.rotation.x = -Math.PI / 2;
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.name = `building ${building.feature}`;
+    mesh.userData = {
+      kind: "building",
+      feature: building.feature,
+      height: building.height,
+    };
+    scene.add(mesh);
+    return mesh;
+  });
+
+  const roads = layout.roads.map((road) => {
+    const surface = new THREE.Mesh(
+      createRibbonGeometry(road.points, road.width, 0.01),
+      roadMaterial
+    );
+    surface.receiveShadow = true;
+    surface.name = `road ${road.feature}`;
+    surface.userData = {
+      kind: "road",
+      feature: road.feature,
+      lanes: road.lanes,
+    };
+    scene.add(surface);
+
+    // Markings between neighbouring lanes, with a wider center line where
+    // the two directions of a two-way road meet. The lanes running along
+    // the line keep to its right, and take the larger half of an odd count.
+    const laneWidth = road.width / road.lanes;
+    const center = road.oneway ? -1 : Math.floor(road.lanes / 2);
+    for (let lane = 1; lane < road.lanes; lane++) {
+      const offset = (lane - road.lanes / 2) * laneWidth;
+      const line = new THREE.Mesh(
+        createRibbonGeometry(
+          offsetPolyline(road.points, offset),
+          lane === center ? 0.5 : 0.2,
+          0.02
+        ),
+        markingMaterial
+      );
+      line.name = lane === center ? "center line" : "lane line";
+      scene.add(line);
+    }
+    return surface;
+  });
+
+  return { buildings, roads };
+}
+
+// Function to turn scene points into shape points. Shapes are drawn in the
+// x/y plane, and y becomes -z once the extrusion is laid flat.
+function toShapePoints(points: Point[]) {
+  return points.map((point) => new THREE.Vector2(point.x, -point.z));
+}
+
+// Function to build a flat strip of the given width along a polyline, at a
+// height just above the ground
+function createRibbonGeometry(points: Point[], width: number, y: number) {
+  const left = offsetPolyline(points, -width / 2);
+  const right = offsetPolyline(points, width / 2);
+  const positions: number[] = [];
+  const indices: number[] = [];
+
+  points.forEach((_, index) => {
+    positions.push(left[index].x, y, left[index].z);
+    positions.push(right[index].x, y, right[index].z);
+
+    if (index > 0) {
+      const a = (index - 1) * 2;
+      const b = index * 2;
+      // Two triangles per stretch, wound to face up
+      indices.push(a, a + 1, b, a + 1, b + 1, b);
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute(
+    "position",
+    new THREE.Float32BufferAttribute(positions, 3)
+  );
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
@@ -0,0 +1,72 @@
+// Registry of the parts of the city that give off light at night. Creators
+// register their light-emitting components when they build them, and the
+// day/night cycle updates those components directly instead of searching
+// the scene for them every frame.
+
+import * as THREE from "three";
+import type { WindowLayer } from "./windows";
+
+// Lamppost with its point light and the glowing bulb material
+export interface StreetLamp {
+  light: THREE.PointLight;
+  bulb: THREE.MeshStandardMaterial;
+}
+
+// Shared headlight material of one car
+export interface Headlights {
+  material: THREE.MeshStandardMaterial;
+}
+
+export interface LightRegistry {
+  streetLamps: StreetLamp[];
+  headlights: Map<THREE.Object3D, Headlights>; // Keyed by the car mesh
+  windows: WindowLayer[]; // Instanced windows of each building type
+}
+
+// Function to create an empty light registry
+export function createLightRegistry(): LightRegistry {
+  return { streetLamps: [], headlights: new Map(), windows: [] };
+}
+
+// Function to register a lamppost's light and bulb
+export function registerStreetLamp(registry: LightRegistry, lamp: StreetLamp) {
+  registry.streetLamps.push(lamp);
+}
+
+// Function to register the headlights of a car mesh
+export function registerHeadlights(
+  registry: LightRegistry,
+  car: THREE.Object3D,
+  headlights: Headlights
+) {
+  registry.headlights.set(car, headlights);
+}
+
+// Function to register the instanced windows of a building type
+export function registerWindows(registry: LightRegistry, layer: WindowLayer) {
+  registry.windows.push(layer);
+}
+
+// Function to forget every light component owned by an object that is
+// being removed from the scene
+export function unregisterLights(
+  registry: LightRegistry,
+  object: THREE.Object3D
+) {
+  registry.headlights.delete(object);
+
+  // Lamps and window layers anywhere inside the object
+  const owned = new Set<THREE.Object3D>();
+  object.traverse((child) => owned.add(child));
+  const { streetLamps, windows } = registry;
+  streetLamps.splice(
+    0,
+    Infinity,
+    ...streetLamps.filter((lamp) => !owned.has(lamp.light))
+  );
+  windows.splice(
+    0,
+    Infinity,
+    ...windows.filter((layer) => !owned.has(layer.mesh))
+  );
+}
@@ -0,0 +1,303 @@
+// Procedural building massing. Buildings are stacked from box-shaped
+// volumes (podiums, setback tiers, apartment bodies) topped with roofs,
+// crowns and rooftop equipment. Only the box volumes are returned for
+// window layout, so windows always sit on a facade and never on a roof.
+
+import * as THREE from "three";
+import type { Random } from "../random";
+import type {
+  BuildingArchetype,
+  BuildingModel,
+  BuildingPlot,
+  BuildingVolume,
+} from "./archetypes";
+
+// Narrowest a setback tier may get before the tower stops stepping in
+const minTierWidth = 3;
+
+// Function to create the body material of a building from its palette
+function createBodyMaterial(archetype: BuildingArchetype, rng: Random) {
+  const { palette } = archetype;
+  return new THREE.MeshStandardMaterial({
+    color: palette.length > 1 ? rng.pick(palette) : palette[0],
+    roughness: archetype.roughness,
+    metalness: archetype.metalness,
+  });
+}
+
+// Function to add a box to a building group and return its volume. The
+// volume's x and z are in scene coordinates, the box itself is placed
+// relative to the group at the plot center.
+function addVolume(
+  group: THREE.Group,
+  plot: BuildingPlot,
+  volume: BuildingVolume,
+  material: THREE.Material
+) {
+  const geometry = new THREE.BoxGeometry(
+    volume.width,
+    volume.height,
+    volume.depth
+  );
+  const box = new THREE.Mesh(geometry, material);
+  box.position.set(
+    volume.x - plot.x,
+    volume.y + volume.height / 2,
+    volume.z - plot.z
+  );
+  group.add(box);
+  return volume;
+}
+
+// Function to let every mesh of a building cast and receive shadows
+function enableShadows(object: THREE.Object3D) {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.castShadow = true;
+      child.receiveShadow = true;
+    }
+  });
+}
+
+// Function to build a plain box building over the whole plot, in a color
+// from the archetype's palette
+export function createBoxBuilding(
+  archetype: BuildingArchetype,
+  plot: BuildingPlot,
+  rng: Random
+): BuildingModel {
+  const { width, depth, height } = plot;
+  const material = createBodyMaterial(archetype, rng);
+
+  const geometry = new THREE.BoxGeometry(width, height, depth);
+  const building = new THREE.Mesh(geometry, material);
+  building.position.set(plot.x, height / 2, plot.z);
+  enableShadows(building);
+
+  return {
+    object: building,
+    volumes: [{ x: plot.x, y: 0, z: plot.z, width, depth, height }],
+  };
+}
+
+// Function to build a tower from a podium, a shaft that steps in at one or
+// more setbacks, and a crown on top
+export function createTowerBuilding(
+  archetype: BuildingArchetype,
+  plot: BuildingPlot,
+  rng: Random
+): BuildingModel {
+  const { height } = plot;
+  const footprint = { width: plot.width, depth: plot.depth };
+  const material = createBodyMaterial(archetype, rng);
+  const podiumMaterial = material.clone();
+  podiumMaterial.color.multiplyScalar(0.7);
+
+  const group = new THREE.Group();
+  group.position.set(plot.x, 0, plot.z);
+  const volumes: BuildingVolume[] = [];
+
+  // Podium over the whole footprint
+  const podiumHeight = Math.min(rng.range(4, 8), height / 3);
+  volumes.push(
+    addVolume(
+      group,
+      plot,
+      { x: plot.x, y: 0, z: plot.z, ...footprint, height: podiumHeight },
+      podiumMaterial
+    )
+  );
+
+  // Shaft tiers, each narrower than the one below and a smaller share of
+  // the remaining height
+  const tiers = rng.int(1, 4);
+  const setback = rng.range(0.5, 1.25);
+  let width = footprint.width - 2 * setback;
+  let depth = footprint.depth - 2 * setback;
+  let base = podiumHeight;
+
+  for (let tier = 0; tier < tiers; tier++) {
+    const remaining = height - base;
+    const last =
+      tier === tiers - 1 ||
+      width - 2 * setback < minTierWidth ||
+      depth - 2 * setback < minTierWidth;
+    const tierHeight = last ? remaining : remaining * rng.range(0.5, 0.7);
+
+    volumes.push(
+      addVolume(
+        group,
+        plot,
+        { x: plot.x, y: base, z: plot.z, width, depth, height: tierHeight },
+        material
+      )
+    );
+
+    base += tierHeight;
+    if (last) break;
+    width -= 2 * setback;
+    depth -= 2 * setback;
+  }
+
+  addCrown(group, width, depth, base, podiumMaterial, rng);
+  enableShadows(group);
+
+  return { object: group, volumes };
+}
+
+// Function to top a tower with a plant-room box, a spire or a plain parapet
+function addCrown(
+  group: THREE.Group,
+  width: number,
+  depth: number,
+  top: number,
+  material: THREE.Material,
+  rng: Random
+) {
+  const kind = rng.pick(["plantRoom", "spire", "parapet"] as const);
+
+  if (kind === "plantRoom") {
+    const height = rng.range(1.5, 3);
+    const plantRoom = new THREE.Mesh(
+      new THREE.BoxGeometry(width * 0.6, height, depth * 0.6),
+      material
+    );
+    plantRoom.position.y = top + height / 2;
+    group.add(plantRoom);
+  } else if (kind === "spire") {
+    const height = rng.range(4, 10);
+    const spire = new THREE.Mesh(
+      new THREE.ConeGeometry(Math.min(width, depth) * 0.15, height, 8),
+      material
+    );
+    spire.position.y = top + height / 2;
+    group.add(spire);
+  } else {
+    // Low wall around the roof edge
+    const thickness = 0.2;
+    const height = 0.8;
+    [
+      { x: 0, z: depth / 2, w: width, d: thickness },
+      { x: 0, z: -depth / 2, w: width, d: thickness },
+      { x: width / 2, z: 0, w: thickness, d: depth },
+      { x: -width / 2, z: 0, w: thickness, d: depth },
+    ].forEach((side) => {
+      const wall = new THREE.Mesh(
+        new THREE.BoxGeometry(side.w, height, side.d),
+        material
+      );
+      wall.position.set(side.x, top + height / 2, side.z);
+      group.add(wall);
+    });
+  }
+}
+
+// Function to build a residential block with either a pitched roof or a
+// flat roof carrying rooftop equipment
+export function createResidentialBuilding(
+  archetype: BuildingArchetype,
+  plot: BuildingPlot,
+  rng: Random
+): BuildingModel {
+  const { width, depth, height } = plot;
+  const material = createBodyMaterial(archetype, rng);
+
+  const group = new THREE.Group();
+  group.position.set(plot.x, 0, plot.z);
+  const volume = addVolume(
+    group,
+    plot,
+    { x: plot.x, y: 0, z: plot.z, width, depth, height },
+    material
+  );
+
+  if (rng.chance(0.5)) {
+    addPitchedRoof(group, width, depth, height, rng);
+  } else {
+    addRooftopEquipment(group, width, depth, height, rng);
+  }
+  enableShadows(group);
+
+  return { object: group, volumes: [volume] };
+}
+
+// Function to add a gable roof whose ridge runs along the longer side
+function addPitchedRoof(
+  group: THREE.Group,
+  width: number,
+  depth: number,
+  top: number,
+  rng: Random
+) {
+  const span = Math.min(width, depth);
+  const length = Math.max(width, depth);
+  const rise = span * rng.range(0.25, 0.4);
+
+  // Triangular gable extruded along the ridge
+  const gable = new THREE.Shape();
+  gable.moveTo(-span / 2, 0);
+  gable.lineTo(span / 2, 0);
+  gable.lineTo(0, rise);
+  gable.closePath();
+  const geometry = new THREE.ExtrudeGeometry(gable, {
+    depth: length,
+    bevelEnabled: false,
+  });
+  geometry.translate(0, 0, -length / 2);
+
+  const roof = new THREE.Mesh(
+    geometry,
+    new THREE.MeshStandardMaterial({
+      color: 0x8b3a2b,
+      roughness: 0.8,
+      metalness: 0.1,
+    })
+  );
+  roof.position.y = top;
+  if (width > depth) roof.rotation.y = Math.PI / 2; // Ridge along x
+  group.add(roof);
+}
+
+// Function to scatter air-conditioning units and a water tank over a flat
+// roof
+function addRooftopEquipment(
+  group: THREE.Group,
+  width: number,
+  depth: number,
+  top: number,
+  rng: Random
+) {
+  const material = new THREE.MeshStandardMaterial({
+    color: 0x999999,
+    roughness: 0.6,
+    metalness: 0.5,
+  });
+
+  // Keep everything clear of the roof edge
+  const spreadX = width / 2 - 1;
+  const spreadZ = depth / 2 - 1;
+
+  const units = rng.int(1, 4);
+  for (let i = 0; i < units; i++) {
+    const unit = new THREE.Mesh(new THREE.BoxGeometry(1, 0.6, 1), material);
+    unit.position.set(
+      rng.range(-spreadX, spreadX),
+      top + 0.3,
+      rng.range(-spreadZ, spreadZ)
+    );
+    group.add(unit);
+  }
+
+  if (rng.chance(0.5)) {
+    const tank = new THREE.Mesh(
+      new THREE.CylinderGeometry(0.7, 0.7, 1.5, 12),
+      material
+    );
+    tank.position.set(
+      rng.range(-spreadX, spreadX),
+      top + 0.75,
+      rng.range(-spreadZ, spreadZ)
+    );
+    group.add(tank);
+  }
+}
@@ -0,0 +1,42 @@
+import * as THREE from "three";
+import type { PedestrianState } from "../sim/pedestrians";
+
+// Function to create a single pedestrian
+export function createPedestrian(state: PedestrianState) {
+  const pedestrian = new THREE.Group();
+
+  // Body
+  const bodyGeometry = new THREE.CapsuleGeometry(0.3, 1, 4, 8);
+  const bodyMaterial = new THREE.MeshStandardMaterial({
+    color: state.color,
+    roughness: 0.8,
+    metalness: 0.2,
+  });
+  const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
+  body.position.y = 0.8;
+  pedestrian.add(body);
+
+  // Head
+  const headGeometry = new THREE.SphereGeometry(0.25, 16, 16);
+  const headMaterial = new THREE.MeshStandardMaterial({
+    color: 0xffcc99,
+    roughness: 0.6,
+    metalness: 0.1,
+  });
+  const head = new THREE.Mesh(headGeometry, headMaterial);
+  head.position.y = 1.7;
+  pedestrian.add(head);
+
+  // Lets the pedestrian be inspected; details are read from its record
+  pedestrian.userData = { kind: "pedestrian", id: state.id };
+
+  // Cast and receive shadows
+  pedestrian.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.castShadow = true;
+      object.receiveShadow = true;
+    }
+  });
+
+  return pedestrian;
+}
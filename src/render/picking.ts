@@ -0,0 +1,219 @@
+// Click-to-inspect picking. A click on the canvas (not the end of an orbit
+// drag) selects the nearest object that carries a `userData.kind`, outlines
+// it with a box and describes it from its `userData` and, for simulated
+// elements, from their live simulation records.
+
+import * as THREE from "three";
+import type { CitySimulation } from "../sim/simulation";
+import { getStateTimeLeft } from "../sim/trafficLights";
+
+// Details shown for a selected object, as label / value rows
+export interface SelectionInfo {
+  title: string;
+  rows: [string, string][];
+}
+
+export interface Picker {
+  enabled: boolean; // Clicks are ignored while off, e.g. in the city editor
+  selected: THREE.Object3D | null;
+  highlight: THREE.BoxHelper;
+}
+
+const clickTolerance = 5; // Pixels the pointer may move for a click
+
+// Function to start picking objects under the pointer in the given scene
+export function createPicker(
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  canvas: HTMLElement
+) {
+  const highlight = new THREE.BoxHelper(new THREE.Object3D(), 0xffff00);
+  highlight.name = "selection";
+  highlight.visible = false;
+  scene.add(highlight);
+
+  const picker: Picker = { enabled: true, selected: null, highlight };
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  let downX = 0;
+  let downY = 0;
+
+  canvas.addEventListener("pointerdown", (event) => {
+    downX = event.clientX;
+    downY = event.clientY;
+  });
+
+  canvas.addEventListener("pointerup", (event) => {
+    if (
+      !picker.enabled ||
+      event.button !== 0 ||
+      Math.hypot(event.clientX - downX, event.clientY - downY) > clickTolerance
+    ) {
+      return;
+    }
+
+    const bounds = canvas.getBoundingClientRect();
+    pointer.set(
+      ((event.clientX - bounds.left) / bounds.width) * 2 - 1,
+      -((event.clientY - bounds.top) / bounds.height) * 2 + 1
+    );
+    raycaster.setFromCamera(pointer, camera);
+
+    // The nearest hit that belongs to something inspectable; hits on
+    // windows, rain and the ground are passed through
+    let target: THREE.Object3D | null = null;
+    for (const hit of raycaster.intersectObjects(scene.children, true)) {
+      target = findInspectable(hit.object);
+      if (target) break;
+    }
+    selectObject(picker, target);
+  });
+
+  window.addEventListener("keydown", (event) => {
+    if (event.key === "Escape") selectObject(picker, null);
+  });
+
+  return picker;
+}
+
+// Function to select an object, or clear the selection with null
+export function selectObject(picker: Picker, object: THREE.Object3D | null) {
+  picker.selected = object;
+  picker.highlight.visible = object !== null;
+  if (object) picker.highlight.setFromObject(object);
+}
+
+// Function to keep the highlight on a moving selection. Objects removed
+// from the scene, like a pedestrian going indoors, are deselected.
+export function updatePicker(picker: Picker) {
+  const { selected } = picker;
+  if (!selected) return;
+
+  if (!isInScene(selected)) {
+    selectObject(picker, null);
+    return;
+  }
+  picker.highlight.setFromObject(selected);
+}
+
+// Function to describe the selected object, or return null if nothing is
+// selected
+export function describeSelection(
+  picker: Picker,
+  sim: CitySimulation
+): SelectionInfo | null {
+  const object = picker.selected;
+  if (!object) return null;
+
+  const data = object.userData;
+  const { x, z } = object.position;
+  const position = `${x.toFixed(1)}, ${z.toFixed(1)}`;
+
+  switch (data.kind) {
+    case "building":
+      return {
+        title: data.type ? `Building · ${data.type}` : "Building",
+        rows: [
+          ["Height", `${data.height.toFixed(1)} m`],
+          ...(data.floors !== undefined
+            ? [["Floors", `${data.floors}`] as [string, string]]
+            : []),
+          ...(data.windows !== undefined
+            ? [["Windows", `${data.windows}`] as [string, string]]
+            : []),
+          ...(data.feature !== undefined
+            ? [["Feature", `${data.feature}`] as [string, string]]
+            : []),
+        ],
+      };
+
+    case "car": {
+      const car = sim.cars.find((candidate) => candidate.id === data.id);
+      if (!car) return null;
+      return {
+        title: `Car ${car.id}`,
+        rows: [
+          ["Speed", `${car.speed.toFixed(1)} m/s`],
+          ["Road", `${car.road} ${car.roadIndex}`],
+          ["Lane offset", car.lane.toFixed(1)],
+          [
+            "Stopping for",
+            car.stoppingFor !== null ? `light ${car.stoppingFor}` : "—",
+          ],
+        ],
+      };
+    }
+
+    case "pedestrian": {
+      const pedestrian = sim.pedestrians.find(
+        (candidate) => candidate.id === data.id
+      );
+      if (!pedestrian) return null;
+      return {
+        title: `Pedestrian ${pedestrian.id}`,
+        rows: [
+          ["Speed", `${pedestrian.speed.toFixed(1)} m/s`],
+          ["Waiting", pedestrian.waiting ? "at the kerb" : "no"],
+        ],
+      };
+    }
+
+    case "trafficLight": {
+      const trafficLight = sim.trafficLights[data.id];
+      const intersection = sim.intersections[trafficLight.intersection];
+      const timeLeft = getStateTimeLeft(intersection, trafficLight.axis);
+      return {
+        title: `Traffic light ${trafficLight.id}`,
+        rows: [
+          ["State", trafficLight.state],
+          ["Time left", `${timeLeft.toFixed(1)} s`],
+          ["Controls", `${trafficLight.axis} road`],
+          ["Intersection", `${trafficLight.column}, ${trafficLight.row}`],
+        ],
+      };
+    }
+
+    case "park":
+      return {
+        title: "Park",
+        rows: [
+          ["Trees", `${data.trees}`],
+          ["Position", position],
+        ],
+      };
+
+    case "road":
+      return {
+        title: "Road",
+        rows: [
+          ["Lanes", `${data.lanes}`],
+          ["Feature", `${data.feature}`],
+        ],
+      };
+
+    default:
+      // Street furniture
+      return {
+        title: `${data.kind[0].toUpperCase()}${data.kind.slice(1)}`,
+        rows: [["Position", position]],
+      };
+  }
+}
+
+// Function to find the inspectable object a mesh belongs to: the mesh
+// itself or its nearest ancestor with a `userData.kind`
+function findInspectable(object: THREE.Object3D) {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    if (typeof current.userData.kind === "string") return current;
+    current = current.parent;
+  }
+  return null;
+}
+
+// Whether an object is still attached to a scene
+function isInScene(object: THREE.Object3D) {
+  let current: THREE.Object3D = object;
+  while (current.parent) current = current.parent;
+  return current instanceof THREE.Scene;
+}
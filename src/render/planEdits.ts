@@ -0,0 +1,375 @@
+// Edits to a city plan, as made in the city editor. Every edit returns a
+// new plan and leaves the one it was given as it was, so earlier plans can
+// be kept for undo. Edits that cannot be made throw a descriptive error.
+// Buildings are addressed by the grid cell they stand in.
+
+import {
+  createCityConfig,
+  getBlockSize,
+  getCellCenter,
+  getCellIndex,
+  isCrossing,
+  isRoadCell,
+  isRoadLine,
+  type CityConfig,
+  type RoadAxis,
+} from "../config";
+import { createRandom, deriveSeed } from "../random";
+import {
+  clearStretch,
+  getRoadMap,
+  paveLine,
+  type RoadStretch,
+} from "../sim/roadLayout";
+import type { Point } from "../sim/roadNetwork";
+import { getZoneRules, type Zoning } from "../sim/zoning";
+import { getArchetype, pickBuildingPlot } from "./archetypes";
+import type { PlannedBuilding } from "./buildings";
+import { parseCityPlan, serializeCityPlan, type CityPlan } from "./cityPlan";
+import { getRoadSegments } from "./roads";
+import { streetElementOffsets, type StreetElementKind } from "./streetElements";
+
+// Plans before and after the current one, as serialized plans
+export interface PlanHistory {
+  past: string[];
+  future: string[];
+}
+
+const historyLimit = 100; // Edits that can be undone
+const furnitureMargin = 2; // How far past a road cell its furniture stands
+
+// Function to find the building or park standing in a cell, returning its
+// index in the plan or -1
+export function findBuilding(plan: CityPlan, column: number, row: number) {
+  const { config } = plan;
+  return plan.buildings.findIndex(
+    (building) =>
+      getCellIndex(config, building.x) === column &&
+      getCellIndex(config, building.z) === row
+  );
+}
+
+// Function to put a new building of a type, or a park for null, in a cell,
+// replacing whatever stood there
+export function placeBuilding(
+  plan: CityPlan,
+  zoning: Zoning,
+  column: number,
+  row: number,
+  type: string | null
+): CityPlan {
+  checkBuildable(plan.config, column, row);
+  const seed = deriveSeed(plan.seed, `${type ?? "park"} ${column},${row}`);
+  const building = planBuilding(plan.config, zoning, column, row, type, seed);
+  return {
+    ...plan,
+    buildings: [...withoutBuilding(plan, column, row), building],
+  };
+}
+
+// Function to move the building in one cell to another, empty cell
+export function moveBuilding(
+  plan: CityPlan,
+  from: [number, number],
+  to: [number, number]
+): CityPlan {
+  const index = getBuildingIndex(plan, ...from);
+  checkBuildable(plan.config, ...to);
+  if (findBuilding(plan, ...to) !== -1) {
+    throw new Error(`Cell ${to[0]}, ${to[1]} already has a building`);
+  }
+
+  const { config } = plan;
+  const building = plan.buildings[index];
+  // Keep the building where it stood within its cell
+  const shift = (from: number, to: number) =>
+    getCellCenter(config, to) - getCellCenter(config, from);
+  const moved: PlannedBuilding = {
+    ...building,
+    x: building.x + shift(from[0], to[0]),
+    z: building.z + shift(from[1], to[1]),
+  };
+  return {
+    ...plan,
+    buildings: plan.buildings.map((other, k) => (k === index ? moved : other)),
+  };
+}
+
+// Function to change the type of the building in a cell. It keeps its
+// seed but gets a footprint and height suited to the new type.
+export function setBuildingType(
+  plan: CityPlan,
+  zoning: Zoning,
+  column: number,
+  row: number,
+  type: string | null
+): CityPlan {
+  const index = getBuildingIndex(plan, column, row);
+  const { seed } = plan.buildings[index];
+  const building = planBuilding(plan.config, zoning, column, row, type, seed);
+  return {
+    ...plan,
+    buildings: plan.buildings.map((other, k) =>
+      k === index ? building : other
+    ),
+  };
+}
+
+// Function to remove the building in a cell
+export function removeBuilding(
+  plan: CityPlan,
+  column: number,
+  row: number
+): CityPlan {
+  getBuildingIndex(plan, column, row);
+  return { ...plan, buildings: withoutBuilding(plan, column, row) };
+}
+
+// Function to pave a road along a row (horizontal) or column (vertical)
+// from one cell to another. The road carries on to the nearest crossings
+// or the edge of the city past its ends.
+export function paveRoad(
+  plan: CityPlan,
+  axis: RoadAxis,
+  index: number,
+  from: number,
+  to: number
+): CityPlan {
+  return setRoadMap(plan, paveLine(plan.config, axis, index, from, to));
+}
+
+// Function to clear an open road stretch
+export function clearRoad(plan: CityPlan, stretch: RoadStretch): CityPlan {
+  return setRoadMap(plan, clearStretch(plan.config, stretch));
+}
+
+// Function to put a street element on the sidewalk nearest to a point. It
+// stands at the usual distance from the road's center line, on the side of
+// the point, and at the point's position along the road.
+export function placeStreetElement(
+  plan: CityPlan,
+  kind: StreetElementKind,
+  point: Point
+): CityPlan {
+  const { config } = plan;
+  const column = getCellIndex(config, point.x);
+  const row = getCellIndex(config, point.z);
+
+  // Paved road lines through or next to the point's cell, away from
+  // crossings
+  const candidates: { axis: RoadAxis; across: number }[] = [];
+  const isPaved = (column: number, row: number) =>
+    Math.min(column, row) >= 0 &&
+    Math.max(column, row) < config.gridDivisions &&
+    isRoadCell(config, column, row);
+  [-1, 0, 1].forEach((step) => {
+    if (
+      isRoadLine(config, "horizontal", row + step) &&
+      !isCrossing(config, column, row + step) &&
+      isPaved(column, row + step)
+    ) {
+      candidates.push({
+        axis: "horizontal",
+        across: point.z - getCellCenter(config, row + step),
+      });
+    }
+    if (
+      isRoadLine(config, "vertical", column + step) &&
+      !isCrossing(config, column + step, row) &&
+      isPaved(column + step, row)
+    ) {
+      candidates.push({
+        axis: "vertical",
+        across: point.x - getCellCenter(config, column + step),
+      });
+    }
+  });
+  if (candidates.length === 0) {
+    throw new Error(
+      "Street furniture goes beside a paved road, away from crossings"
+    );
+  }
+
+  const { axis, across } = candidates.reduce((best, candidate) =>
+    Math.abs(candidate.across) < Math.abs(best.across) ? candidate : best
+  );
+  const offset = (across < 0 ? -1 : 1) * streetElementOffsets[kind];
+  const element =
+    axis === "horizontal"
+      ? { kind, x: point.x, z: point.z - across + offset, rotation: 0 }
+      : {
+          kind,
+          x: point.x - across + offset,
+          z: point.z,
+          // Benches are turned to face the road
+          rotation: kind === "bench" ? Math.PI / 2 : 0,
+        };
+  return { ...plan, streetElements: [...plan.streetElements, element] };
+}
+
+// Function to find the street element nearest to a point within a radius,
+// returning its index in the plan or -1
+export function findStreetElement(plan: CityPlan, point: Point, radius = 1.5) {
+  let nearest = -1;
+  let nearestDistance = radius;
+  plan.streetElements.forEach((element, index) => {
+    const distance = Math.hypot(element.x - point.x, element.z - point.z);
+    if (distance <= nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+// Function to remove a street element by its index in the plan
+export function removeStreetElement(plan: CityPlan, index: number): CityPlan {
+  return {
+    ...plan,
+    streetElements: plan.streetElements.filter((_, k) => k !== index),
+  };
+}
+
+// Function to switch to a saved layout of the same city. Layouts of other
+// cities have to be opened with "?plan=" instead.
+export function replacePlan(plan: CityPlan, saved: CityPlan): CityPlan {
+  const getBase = (config: CityConfig) =>
+    JSON.stringify({ ...config, roadMap: null });
+  if (
+    saved.seed !== plan.seed ||
+    getBase(saved.config) !== getBase(plan.config)
+  ) {
+    throw new Error(
+      "Layout was made for a different city; open it with ?plan= instead"
+    );
+  }
+  return saved;
+}
+
+// Function to start an empty edit history
+export function createPlanHistory(): PlanHistory {
+  return { past: [], future: [] };
+}
+
+// Function to record the plan an edit is about to replace. Anything that
+// was undone can no longer be redone.
+export function recordEdit(history: PlanHistory, plan: CityPlan) {
+  history.past.push(serializeCityPlan(plan));
+  if (history.past.length > historyLimit) history.past.shift();
+  history.future = [];
+}
+
+// Function to go back to the plan before the last edit, or return null if
+// there is nothing to undo
+export function undoEdit(history: PlanHistory, plan: CityPlan) {
+  const previous = history.past.pop();
+  if (previous === undefined) return null;
+  history.future.push(serializeCityPlan(plan));
+  return parseCityPlan(previous);
+}
+
+// Function to make the last undone edit again, or return null if there is
+// nothing to redo
+export function redoEdit(history: PlanHistory, plan: CityPlan) {
+  const next = history.future.pop();
+  if (next === undefined) return null;
+  history.past.push(serializeCityPlan(plan));
+  return parseCityPlan(next);
+}
+
+// Function to plan a building of a type, or a park for null, in a cell
+function planBuilding(
+  config: CityConfig,
+  zoning: Zoning,
+  column: number,
+  row: number,
+  type: string | null,
+  seed: number
+): PlannedBuilding {
+  const x = getCellCenter(config, column);
+  const z = getCellCenter(config, row);
+  const blockSize = getBlockSize(config);
+  const plot = type
+    ? pickBuildingPlot(
+        getArchetype(type),
+        x,
+        z,
+        blockSize,
+        getZoneRules(zoning, column, row).heightScale,
+        createRandom(deriveSeed(seed, "plot"))
+      )
+    : { x, z, width: blockSize, depth: blockSize, height: 0 };
+  return { ...plot, type, seed };
+}
+
+// Function to switch a plan to a new road map. Buildings on newly paved
+// cells and furniture beside any changed cell are removed, and the road
+// segments are listed again for the new layout. Throws for layouts roads
+// cannot be built on.
+function setRoadMap(plan: CityPlan, roadMap: boolean[][]): CityPlan {
+  // A map of just the road lines is stored as null, as in a generated city
+  const fullMap = getRoadMap({ ...plan.config, roadMap: null });
+  const config = createCityConfig({
+    ...plan.config,
+    roadMap:
+      JSON.stringify(roadMap) === JSON.stringify(fullMap) ? null : roadMap,
+  });
+  const changed: [number, number][] = [];
+  roadMap.forEach((cells, row) =>
+    cells.forEach((_, column) => {
+      if (
+        isRoadCell(config, column, row) !== isRoadCell(plan.config, column, row)
+      ) {
+        changed.push([column, row]);
+      }
+    })
+  );
+  if (changed.length === 0) return plan;
+
+  const blockSize = getBlockSize(config);
+  const reach = blockSize / 2 + furnitureMargin;
+  const isBeside = ({ x, z }: Point) =>
+    changed.some(
+      ([column, row]) =>
+        Math.abs(x - getCellCenter(config, column)) <= reach &&
+        Math.abs(z - getCellCenter(config, row)) <= reach
+    );
+
+  return {
+    ...plan,
+    config,
+    buildings: plan.buildings.filter(
+      (building) =>
+        !isRoadCell(
+          config,
+          getCellIndex(config, building.x),
+          getCellIndex(config, building.z)
+        )
+    ),
+    roads: getRoadSegments(config),
+    streetElements: plan.streetElements.filter((element) => !isBeside(element)),
+  };
+}
+
+// Function to check that a building can stand in a cell
+function checkBuildable(config: CityConfig, column: number, row: number) {
+  if (isRoadCell(config, column, row)) {
+    throw new Error(`Cell ${column}, ${row} is a road`);
+  }
+}
+
+// Function to get the index of the building in a cell, throwing if the
+// cell is empty
+function getBuildingIndex(plan: CityPlan, column: number, row: number) {
+  const index = findBuilding(plan, column, row);
+  if (index === -1) {
+    throw new Error(`Cell ${column}, ${row} has no building`);
+  }
+  return index;
+}
+
+// Function to list the plan's buildings without the one in a cell
+function withoutBuilding(plan: CityPlan, column: number, row: number) {
+  const index = findBuilding(plan, column, row);
+  return plan.buildings.filter((_, k) => k !== index);
+}
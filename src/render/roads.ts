@@ -0,0 +1,258 @@
+import * as THREE from "three";
+import {
+  getBlockSize,
+  getCellCenter,
+  isRoadLine,
+  type CityConfig,
+  type RoadAxis,
+} from "../config";
+import {
+  crosswalkWidth,
+  getCrosswalkOffset,
+  getLaneForDirection,
+  getStopLineOffset,
+  stopLineWidth,
+} from "../sim/intersections";
+import {
+  getArm,
+  getLineCrossings,
+  getLineStretches,
+  isSignalised,
+  isStretchOpen,
+} from "../sim/roadLayout";
+import type { Point } from "../sim/roadNetwork";
+
+// A road as listed in the city plan: its center line and width
+export interface PlannedRoad {
+  axis: RoadAxis;
+  index: number; // Grid row (horizontal) or column (vertical) it runs along
+  start: Point;
+  end: Point;
+  width: number;
+}
+
+// Function to list the roads of the grid as center-line segments, one for
+// each unbroken run of road along a road line
+export function getRoadSegments(config: CityConfig) {
+  const width = getBlockSize(config);
+  const roads: PlannedRoad[] = [];
+
+  for (let index = 0; index < config.gridDivisions; index++) {
+    const center = getCellCenter(config, index);
+
+    getLineAxes(config, index).forEach((axis) => {
+      getRoadRuns(config, axis, index).forEach((run) => {
+        roads.push({
+          axis,
+          index,
+          start:
+            axis === "horizontal"
+              ? { x: run.start, z: center }
+              : { x: center, z: run.start },
+          end:
+            axis === "horizontal"
+              ? { x: run.end, z: center }
+              : { x: center, z: run.end },
+          width,
+        });
+      });
+    });
+  }
+
+  return roads;
+}
+
+// Function to list the axes along which a grid row/column carries a road
+// line
+function getLineAxes(config: CityConfig, index: number) {
+  return (["horizontal", "vertical"] as const).filter((axis) =>
+    isRoadLine(config, axis, index)
+  );
+}
+
+// Function to find the unbroken runs of open stretches along a road line,
+// as coordinates along the line. Runs that stop at a crossing cover the
+// whole crossing cell.
+function getRoadRuns(config: CityConfig, axis: RoadAxis, index: number) {
+  const half = config.gridSize / 2;
+  const halfBox = getBlockSize(config) / 2;
+  const runs: { start: number; end: number }[] = [];
+  let open = false;
+
+  getLineStretches(config, axis, index).forEach((stretch) => {
+    if (!isStretchOpen(config, stretch)) {
+      open = false;
+      return;
+    }
+
+    const end =
+      stretch.to === null ? half : getCellCenter(config, stretch.to) + halfBox;
+    if (open) {
+      runs[runs.length - 1].end = end;
+    } else {
+      const start =
+        stretch.from === null
+          ? -half
+          : getCellCenter(config, stretch.from) - halfBox;
+      runs.push({ start, end });
+    }
+    open = true;
+  });
+
+  return runs;
+}
+
+// Function to create road surfaces and their markings
+export function createRoads(scene: THREE.Object3D, config: CityConfig) {
+  const blockSize = getBlockSize(config);
+  const roads: THREE.Mesh[] = [];
+
+  // Create horizontal and vertical roads along each road line
+  for (let i = 0; i < config.gridDivisions; i++) {
+    const axes = getLineAxes(config, i);
+    if (axes.length === 0) continue;
+    const roadMaterial = new THREE.MeshStandardMaterial({
+      color: 0x444444,
+      roughness: 0.6,
+      metalness: 0.3,
+    });
+
+    axes.forEach((axis) => {
+      const isHorizontal = axis === "horizontal";
+      const roadCenter = getCellCenter(config, i);
+      const runs = getRoadRuns(config, axis, i);
+
+      runs.forEach(({ start, end }) => {
+        const geometry = isHorizontal
+          ? new THREE.PlaneGeometry(end - start, blockSize)
+          : new THREE.PlaneGeometry(blockSize, end - start);
+        const road = new THREE.Mesh(geometry, roadMaterial);
+        road.rotation.x = -Math.PI / 2;
+        const along = (start + end) / 2;
+        road.position.set(
+          isHorizontal ? along : roadCenter,
+          0.01,
+          isHorizontal ? roadCenter : along
+        );
+        road.name = `${axis} road ${i}`;
+        scene.add(road);
+        roads.push(road);
+      });
+
+      // Add road markings to the road
+      addRoadMarkings(scene, axis, i, runs, config);
+    });
+  }
+
+  return roads;
+}
+
+// Function to add road markings: center lines along the runs of a road,
+// and crosswalks and stop lines where it meets intersections
+function addRoadMarkings(
+  scene: THREE.Object3D,
+  axis: RoadAxis,
+  index: number,
+  runs: { start: number; end: number }[],
+  config: CityConfig
+) {
+  const blockSize = getBlockSize(config);
+  const isHorizontal = axis === "horizontal";
+  const roadCenter = getCellCenter(config, index);
+
+  const lineMaterial = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    roughness: 0.4,
+    metalness: 0,
+  });
+
+  // Center line for each run of the road, slightly above it
+  const lineWidth = 0.5;
+  runs.forEach(({ start, end }) => {
+    const centerLine = new THREE.Mesh(
+      isHorizontal
+        ? new THREE.PlaneGeometry(end - start, lineWidth)
+        : new THREE.PlaneGeometry(lineWidth, end - start),
+      lineMaterial
+    );
+    centerLine.rotation.x = -Math.PI / 2;
+    const along = (start + end) / 2;
+    centerLine.position.set(
+      isHorizontal ? along : roadCenter,
+      0.03,
+      isHorizontal ? roadCenter : along
+    );
+    centerLine.name = "center line";
+    scene.add(centerLine);
+  });
+
+  // Add crosswalks over each open arm of the intersections along the road,
+  // and stop lines where signals control them
+  getLineCrossings(config, axis, index).forEach((crossIndex) => {
+    const [column, row] = isHorizontal
+      ? [crossIndex, index]
+      : [index, crossIndex];
+    const signalised = isSignalised(config, column, row);
+    const position = getCellCenter(config, crossIndex);
+
+    ([1, -1] as const).forEach((direction) => {
+      const arm = getArm(config, axis, column, row, -direction as 1 | -1);
+      if (!isStretchOpen(config, arm)) return;
+
+      // Crosswalk just outside the intersection
+      const crosswalk = createMarking(
+        crosswalkWidth,
+        blockSize,
+        position - direction * getCrosswalkOffset(config),
+        roadCenter,
+        isHorizontal
+      );
+      crosswalk.name = "crosswalk";
+      scene.add(crosswalk);
+      if (!signalised) return;
+
+      // Stop line in front of the crosswalk, across the approaching lane
+      const laneSide = Math.sign(getLaneForDirection(axis, direction));
+      const stopLine = createMarking(
+        stopLineWidth,
+        blockSize / 2,
+        position - direction * getStopLineOffset(config),
+        roadCenter + (laneSide * blockSize) / 4,
+        isHorizontal
+      );
+      stopLine.name = "stop line";
+      scene.add(stopLine);
+    });
+  });
+}
+
+// Function to create a flat white road marking. `length` runs along the
+// road and `span` across it.
+function createMarking(
+  length: number,
+  span: number,
+  along: number,
+  across: number,
+  isHorizontal: boolean
+) {
+  const geometry = isHorizontal
+    ? new THREE.PlaneGeometry(length, span)
+    : new THREE.PlaneGeometry(span, length);
+
+  const material = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    roughness: 0.4,
+    metalness: 0,
+  });
+
+  const marking = new THREE.Mesh(geometry, material);
+  marking.rotation.x = -Math.PI / 2;
+
+  if (isHorizontal) {
+    marking.position.set(along, 0.02, across);
+  } else {
+    marking.position.set(across, 0.02, along);
+  }
+
+  return marking;
+}
@@ -0,0 +1,261 @@
+import * as THREE from "three";
+import {
+  getBlockSize,
+  isCrossing,
+  isRoadCell,
+  isRoadLine,
+  isSpacedIndex,
+  type CityConfig,
+} from "../config";
+import type { Random } from "../random";
+import { getZoneRules, type Zoning } from "../sim/zoning";
+import { registerStreetLamp, type LightRegistry } from "./lights";
+
+export type StreetElementKind = "lamppost" | "bench" | "tree";
+
+// A street element decided on by the city plan
+export interface PlannedStreetElement {
+  kind: StreetElementKind;
+  x: number;
+  z: number;
+  rotation: number; // About the vertical axis
+}
+
+// Distance of each kind of element from the road center line
+export const streetElementOffsets: Record<StreetElementKind, number> = {
+  lamppost: 5,
+  bench: 4,
+  tree: 6,
+};
+
+// Function to decide where street elements (lampposts, benches, trees) go.
+// Each spot gets its element with the furniture density of the block
+// beside it.
+export function planStreetElements(
+  config: CityConfig,
+  zoning: Zoning,
+  rng: Random
+) {
+  const { gridSize, gridDivisions } = config;
+  const blockSize = getBlockSize(config);
+  const centerOffset = gridSize / 2;
+  const elements: PlannedStreetElement[] = [];
+
+  const kinds = [
+    ["lamppost", config.lampposts],
+    ["bench", config.benches],
+    ["tree", config.trees],
+  ] as const;
+
+  // Create elements along roads
+  for (let i = 0; i < gridDivisions; i++) {
+    const roadCenter = i * blockSize - centerOffset + blockSize / 2;
+
+    // Create elements along horizontal roads
+    for (let j = 0; j < gridDivisions; j++) {
+      if (!isRoadLine(config, "horizontal", i)) break; // Only along roads
+      if (isCrossing(config, j, i)) continue; // Skip intersections
+      if (!isRoadCell(config, j, i)) continue; // Skip unpaved cells
+      const { furniture } = getZoneRules(zoning, j, i + 1);
+      const along = j * blockSize - centerOffset + blockSize / 2;
+
+      kinds.forEach(([kind, spacing]) => {
+        if (isSpacedIndex(spacing, j) && rng.chance(furniture)) {
+          const z = roadCenter + streetElementOffsets[kind];
+          elements.push({ kind, x: along, z, rotation: 0 });
+        }
+      });
+    }
+
+    // Create elements along vertical roads
+    for (let j = 0; j < gridDivisions; j++) {
+      if (!isRoadLine(config, "vertical", i)) break; // Only along roads
+      if (isCrossing(config, i, j)) continue; // Skip intersections
+      if (!isRoadCell(config, i, j)) continue; // Skip unpaved cells
+      const { furniture } = getZoneRules(zoning, i + 1, j);
+      const along = j * blockSize - centerOffset + blockSize / 2;
+
+      kinds.forEach(([kind, spacing]) => {
+        if (isSpacedIndex(spacing, j) && rng.chance(furniture)) {
+          const x = roadCenter + streetElementOffsets[kind];
+          // Benches are turned to face the road
+          const rotation = kind === "bench" ? Math.PI / 2 : 0;
+          elements.push({ kind, x, z: along, rotation });
+        }
+      });
+    }
+  }
+
+  return elements;
+}
+
+// Function to create the planned street elements. Without `pointLights`
+// the lampposts only glow, which keeps the number of lights the scene's
+// materials are compiled for from changing as chunks come and go.
+export function createStreetElements(
+  scene: THREE.Object3D,
+  planned: PlannedStreetElement[],
+  lights: LightRegistry,
+  pointLights = true
+) {
+  return planned.map((plan) => {
+    const element =
+      plan.kind === "lamppost"
+        ? createLamppost(lights, pointLights)
+        : plan.kind === "bench"
+        ? createBench()
+        : createTree();
+    element.name = plan.kind;
+    element.userData.kind = plan.kind;
+    element.position.set(plan.x, 0, plan.z);
+    element.rotation.y = plan.rotation;
+    scene.add(element);
+    return element;
+  });
+}
+
+// Function to create a lamppost
+function createLamppost(lights: LightRegistry, pointLight: boolean) {
+  const lamppost = new THREE.Group();
+
+  // Pole
+  const poleGeometry = new THREE.CylinderGeometry(0.1, 0.1, 5, 8);
+  const poleMaterial = new THREE.MeshStandardMaterial({
+    color: 0x333333,
+    roughness: 0.7,
+    metalness: 0.5,
+  });
+  const pole = new THREE.Mesh(poleGeometry, poleMaterial);
+  pole.position.y = 2.5;
+  lamppost.add(pole);
+
+  // Lamp head
+  const headGeometry = new THREE.CylinderGeometry(0.5, 0.5, 0.2, 16);
+  const headMaterial = new THREE.MeshStandardMaterial({
+    color: 0x444444,
+    roughness: 0.5,
+    metalness: 0.7,
+  });
+  const head = new THREE.Mesh(headGeometry, headMaterial);
+  head.position.y = 5;
+  lamppost.add(head);
+
+  // Light bulb
+  const bulbGeometry = new THREE.SphereGeometry(0.3, 16, 16);
+  const bulbMaterial = new THREE.MeshStandardMaterial({
+    color: 0xffffee,
+    emissive: 0xffffee,
+    emissiveIntensity: 0.5,
+    transparent: true,
+    opacity: 0.9,
+  });
+  const bulb = new THREE.Mesh(bulbGeometry, bulbMaterial);
+  bulb.position.y = 4.8;
+  lamppost.add(bulb);
+
+  // Actual light
+  const light = new THREE.PointLight(0xffffee, 0.8, 15);
+  light.position.y = 5;
+  light.visible = pointLight;
+  lamppost.add(light);
+
+  // Register the light for the day/night cycle
+  registerStreetLamp(lights, { light, bulb: bulbMaterial });
+
+  // Cast and receive shadows
+  lamppost.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.castShadow = true;
+      object.receiveShadow = true;
+    }
+  });
+
+  return lamppost;
+}
+
+// Function to create a bench
+function createBench() {
+  const bench = new THREE.Group();
+
+  // Bench seat
+  const seatGeometry = new THREE.BoxGeometry(2, 0.1, 0.8);
+  const seatMaterial = new THREE.MeshStandardMaterial({
+    color: 0x885522,
+    roughness: 0.9,
+    metalness: 0.1,
+  });
+  const seat = new THREE.Mesh(seatGeometry, seatMaterial);
+  seat.position.y = 0.5;
+  bench.add(seat);
+
+  // Bench backrest
+  const backrestGeometry = new THREE.BoxGeometry(2, 0.8, 0.1);
+  const backrest = new THREE.Mesh(backrestGeometry, seatMaterial);
+  backrest.position.set(0, 0.9, -0.35);
+  bench.add(backrest);
+
+  // Bench legs
+  const legGeometry = new THREE.BoxGeometry(0.1, 0.5, 0.8);
+  const legMaterial = new THREE.MeshStandardMaterial({
+    color: 0x444444,
+    roughness: 0.8,
+    metalness: 0.5,
+  });
+
+  // Left leg
+  const leftLeg = new THREE.Mesh(legGeometry, legMaterial);
+  leftLeg.position.set(-0.9, 0.25, 0);
+  bench.add(leftLeg);
+
+  // Right leg
+  const rightLeg = new THREE.Mesh(legGeometry, legMaterial);
+  rightLeg.position.set(0.9, 0.25, 0);
+  bench.add(rightLeg);
+
+  // Cast and receive shadows
+  bench.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.castShadow = true;
+      object.receiveShadow = true;
+    }
+  });
+
+  return bench;
+}
+
+// Function to create a tree
+export function createTree() {
+  const tree = new THREE.Group();
+
+  // Tree trunk
+  const trunkGeometry = new THREE.CylinderGeometry(0.3, 0.5, 2, 8);
+  const trunkMaterial = new THREE.MeshStandardMaterial({
+    color: 0x8b4513,
+    roughness: 0.9,
+    metalness: 0,
+  });
+  const trunk = new THREE.Mesh(trunkGeometry, trunkMaterial);
+  trunk.position.y = 1;
+  tree.add(trunk);
+
+  // Tree leaves
+  const leavesGeometry = new THREE.SphereGeometry(1.5, 16, 16);
+  const leavesMaterial = new THREE.MeshStandardMaterial({
+    color: 0x228b22,
+    roughness: 1,
+    metalness: 0,
+  });
+  const leaves = new THREE.Mesh(leavesGeometry, leavesMaterial);
+  leaves.position.y = 3;
+  tree.add(leaves);
+
+  // Cast and receive shadows
+  tree.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.castShadow = true;
+      object.receiveShadow = true;
+    }
+  });
+
+  return tree;
+}
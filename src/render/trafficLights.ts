@@ -0,0 +1,102 @@
+import * as THREE from "three";
+import type { TrafficLightState } from "../sim/trafficLights";
+
+// Function to create a traffic light
+export function createTrafficLight(state: TrafficLightState) {
+  const trafficLight = new THREE.Group();
+  trafficLight.name = "traffic light";
+
+  // Pole
+  const poleGeometry = new THREE.CylinderGeometry(0.2, 0.2, 5, 8);
+  const poleMaterial = new THREE.MeshStandardMaterial({
+    color: 0x333333,
+    roughness: 0.8,
+    metalness: 0.2,
+  });
+  const pole = new THREE.Mesh(poleGeometry, poleMaterial);
+  pole.position.y = 2.5;
+  trafficLight.add(pole);
+
+  // Light housing
+  const housingGeometry = new THREE.BoxGeometry(1, 2.5, 1);
+  const housingMaterial = new THREE.MeshStandardMaterial({
+    color: 0x222222,
+    roughness: 0.8,
+    metalness: 0.2,
+  });
+  const housing = new THREE.Mesh(housingGeometry, housingMaterial);
+  housing.position.set(0, 5, 0);
+  trafficLight.add(housing);
+
+  // Create the three lights (red, yellow, green)
+  const lightGeometry = new THREE.SphereGeometry(0.3, 16, 16);
+
+  // Red light
+  const redLightMaterial = new THREE.MeshStandardMaterial({
+    color: 0xff0000,
+    emissive: 0xff0000,
+    emissiveIntensity: 0,
+  });
+  const redLight = new THREE.Mesh(lightGeometry, redLightMaterial);
+  redLight.position.set(0, 5.8, 0.55);
+  trafficLight.add(redLight);
+
+  // Yellow light
+  const yellowLightMaterial = new THREE.MeshStandardMaterial({
+    color: 0xffff00,
+    emissive: 0xffff00,
+    emissiveIntensity: 0,
+  });
+  const yellowLight = new THREE.Mesh(lightGeometry, yellowLightMaterial);
+  yellowLight.position.set(0, 5, 0.55);
+  trafficLight.add(yellowLight);
+
+  // Green light
+  const greenLightMaterial = new THREE.MeshStandardMaterial({
+    color: 0x00ff00,
+    emissive: 0x00ff00,
+    emissiveIntensity: 0,
+  });
+  const greenLight = new THREE.Mesh(lightGeometry, greenLightMaterial);
+  greenLight.position.set(0, 4.2, 0.55);
+  trafficLight.add(greenLight);
+
+  // Add custom properties to the traffic light for animation and for
+  // inspecting it
+  trafficLight.userData = {
+    kind: "trafficLight",
+    id: state.id,
+    lights: {
+      red: redLight,
+      yellow: yellowLight,
+      green: greenLight,
+    },
+  };
+
+  // Cast and receive shadows
+  trafficLight.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.castShadow = true;
+      object.receiveShadow = true;
+    }
+  });
+
+  return trafficLight;
+}
+
+// Function to light up the lamp matching a traffic light's current state
+export function updateTrafficLightMesh(
+  trafficLight: THREE.Object3D,
+  state: TrafficLightState
+) {
+  const lights = trafficLight.userData.lights as Record<
+    TrafficLightState["state"],
+    THREE.Mesh<THREE.BufferGeometry, THREE.MeshStandardMaterial>
+  >;
+
+  // Reset all lights, then activate the current one
+  lights.red.material.emissiveIntensity = 0;
+  lights.yellow.material.emissiveIntensity = 0;
+  lights.green.material.emissiveIntensity = 0;
+  lights[state.state].material.emissiveIntensity = 1;
+}
@@ -0,0 +1,246 @@
+// Render side of the weather: scene fog, falling rain or snow, dimmer and
+// greyer skies and wet roads. Everything eases towards the look of the
+// current weather, so changes in the simulation never snap on screen.
+
+import * as THREE from "three";
+import type { CityConfig } from "../config";
+import type { Random } from "../random";
+import type { WeatherKind, WeatherState } from "../sim/weather";
+import type { SkyLights } from "./dayNight";
+
+interface WeatherLook {
+  fogNear: number;
+  fogFar: number;
+  dimming: number; // Multiplier on sun and moon light
+  wetness: number; // 0 dry roads, 1 soaked
+  precipitation: "rain" | "snow" | null;
+}
+
+const weatherLooks: Record<WeatherKind, WeatherLook> = {
+  clear: {
+    fogNear: 200,
+    fogFar: 800,
+    dimming: 1,
+    wetness: 0,
+    precipitation: null,
+  },
+  overcast: {
+    fogNear: 100,
+    fogFar: 400,
+    dimming: 0.6,
+    wetness: 0,
+    precipitation: null,
+  },
+  rain: {
+    fogNear: 50,
+    fogFar: 250,
+    dimming: 0.45,
+    wetness: 1,
+    precipitation: "rain",
+  },
+  fog: {
+    fogNear: 5,
+    fogFar: 80,
+    dimming: 0.6,
+    wetness: 0.3,
+    precipitation: null,
+  },
+  snow: {
+    fogNear: 40,
+    fogFar: 200,
+    dimming: 0.65,
+    wetness: 0.6,
+    precipitation: "snow",
+  },
+};
+
+const particleCount = 4000;
+const precipitationHeight = 60;
+const rainSpeed = 30; // Units per second
+const snowSpeed = 3;
+const easingTime = 2; // Seconds for the look to move most of the way over
+
+const cloudGrey = new THREE.Color(0x777788);
+const cloudColor = new THREE.Color(); // Cloud grey scaled to the light level
+const skyHsl = { h: 0, s: 0, l: 0 };
+const dryRoad = {
+  color: new THREE.Color(0x444444),
+  roughness: 0.6,
+  metalness: 0.3,
+};
+const wetRoad = {
+  color: new THREE.Color(0x262626),
+  roughness: 0.15,
+  metalness: 0.6,
+};
+
+export interface WeatherView {
+  fog: THREE.Fog;
+  precipitation: THREE.Points;
+  rainMaterial: THREE.PointsMaterial;
+  snowMaterial: THREE.PointsMaterial;
+  roadMaterials: THREE.MeshStandardMaterial[];
+  size: number; // Width and depth of the precipitation volume
+  // Current eased look
+  fogNear: number;
+  fogFar: number;
+  dimming: number;
+  wetness: number;
+  time: number; // Seconds of precipitation animated so far
+}
+
+// Function to create the fog, precipitation particles and wet-road state
+export function createWeatherView(
+  scene: THREE.Scene,
+  config: CityConfig,
+  roads: THREE.Mesh[],
+  rng: Random
+): WeatherView {
+  const size = config.gridSize;
+
+  // Particles scattered through a box over the city
+  const positions = new Float32Array(particleCount * 3);
+  for (let i = 0; i < particleCount; i++) {
+    positions[i * 3] = rng.range(-size / 2, size / 2);
+    positions[i * 3 + 1] = rng.range(0, precipitationHeight);
+    positions[i * 3 + 2] = rng.range(-size / 2, size / 2);
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+
+  const rainMaterial = new THREE.PointsMaterial({
+    color: 0xaabbdd,
+    size: 0.15,
+    transparent: true,
+    opacity: 0.6,
+  });
+  const snowMaterial = new THREE.PointsMaterial({
+    color: 0xffffff,
+    size: 0.4,
+    transparent: true,
+    opacity: 0.9,
+  });
+
+  const precipitation = new THREE.Points(geometry, rainMaterial);
+  precipitation.visible = false;
+  precipitation.frustumCulled = false; // Particles move outside the bounds
+  scene.add(precipitation);
+
+  const clear = weatherLooks.clear;
+  return {
+    fog: new THREE.Fog(0xffffff, clear.fogNear, clear.fogFar),
+    precipitation,
+    rainMaterial,
+    snowMaterial,
+    roadMaterials: getRoadMaterials(roads),
+    size,
+    fogNear: clear.fogNear,
+    fogFar: clear.fogFar,
+    dimming: clear.dimming,
+    wetness: clear.wetness,
+    time: 0,
+  };
+}
+
+// Function to point the wet-road effect at a new set of road meshes, e.g.
+// after the roads were rebuilt
+export function setWeatherRoads(view: WeatherView, roads: THREE.Mesh[]) {
+  view.roadMaterials = getRoadMaterials(roads);
+}
+
+// Function to collect the materials of the road meshes. Roads share a few
+// materials, which are wetted all together.
+function getRoadMaterials(roads: THREE.Mesh[]) {
+  const roadMaterials = new Set<THREE.MeshStandardMaterial>();
+  roads.forEach((road) => {
+    if (road.material instanceof THREE.MeshStandardMaterial) {
+      roadMaterials.add(road.material);
+    }
+  });
+  return [...roadMaterials];
+}
+
+// Function to update the weather's look for `dt` simulated seconds. Runs
+// after the day/night cycle, whose light levels and sky color it adjusts.
+export function updateWeatherView(
+  view: WeatherView,
+  weather: WeatherState,
+  skyLights: SkyLights,
+  scene: THREE.Scene,
+  dt: number
+) {
+  const look = weatherLooks[weather.kind];
+
+  // Ease the look towards the current weather
+  const t = 1 - Math.exp(-dt / easingTime);
+  view.fogNear += (look.fogNear - view.fogNear) * t;
+  view.fogFar += (look.fogFar - view.fogFar) * t;
+  view.dimming += (look.dimming - view.dimming) * t;
+  view.wetness += (look.wetness - view.wetness) * t;
+
+  // Clouds dim the sun and moon and turn the sky grey
+  skyLights.sun.intensity *= view.dimming;
+  skyLights.moon.intensity *= view.dimming;
+  skyLights.ambient.intensity *= 0.5 + 0.5 * view.dimming;
+
+  if (scene.background instanceof THREE.Color) {
+    const cloudiness = (1 - view.dimming) / (1 - weatherLooks.rain.dimming);
+    // Clouds are only as bright as the sky behind them, so nights stay dark
+    const brightness = scene.background.getHSL(skyHsl).l;
+    cloudColor.copy(cloudGrey).multiplyScalar(Math.min(1, brightness * 1.5));
+    scene.background.lerp(cloudColor, Math.min(1, cloudiness) * 0.7);
+    view.fog.color.copy(scene.background);
+  }
+  view.fog.near = view.fogNear;
+  view.fog.far = view.fogFar;
+  scene.fog = view.fog;
+
+  // Wet roads are darker and shinier
+  view.roadMaterials.forEach((material) => {
+    material.color.lerpColors(dryRoad.color, wetRoad.color, view.wetness);
+    material.roughness =
+      dryRoad.roughness +
+      (wetRoad.roughness - dryRoad.roughness) * view.wetness;
+    material.metalness =
+      dryRoad.metalness +
+      (wetRoad.metalness - dryRoad.metalness) * view.wetness;
+  });
+
+  updatePrecipitation(view, look.precipitation, dt);
+}
+
+// Function to let the rain or snow fall, wrapping particles that reach the
+// ground back to the top of the volume
+function updatePrecipitation(
+  view: WeatherView,
+  kind: WeatherLook["precipitation"],
+  dt: number
+) {
+  view.precipitation.visible = kind !== null;
+  if (kind === null) return;
+
+  view.precipitation.material =
+    kind === "rain" ? view.rainMaterial : view.snowMaterial;
+  view.time += dt;
+
+  const attribute = view.precipitation.geometry.getAttribute(
+    "position"
+  ) as THREE.BufferAttribute;
+  const positions = attribute.array as Float32Array;
+  const fall = (kind === "rain" ? rainSpeed : snowSpeed) * dt;
+  const half = view.size / 2;
+
+  for (let i = 0; i < particleCount; i++) {
+    let y = positions[i * 3 + 1] - fall;
+    if (y < 0) y += precipitationHeight;
+    positions[i * 3 + 1] = y;
+
+    // Snowflakes drift from side to side as they fall
+    if (kind === "snow") {
+      const x = positions[i * 3] + Math.sin(view.time + i) * dt * 0.5;
+      positions[i * 3] =
+        x > half ? x - view.size : x < -half ? x + view.size : x;
+    }
+  }
+  attribute.needsUpdate = true;
+}
@@ -0,0 +1,195 @@
+// Building windows, drawn as one InstancedMesh per building type. All the
+// windows of a type share one geometry and one material; whether a window
+// is lit lives in a per-instance `lit` attribute rather than its material.
+// Windows switch on and off through the day following the occupancy
+// schedule in their building type's window layout.
+
+import * as THREE from "three";
+import type { Random } from "../random";
+import type { BuildingVolume, WindowLayout } from "./archetypes";
+
+const litEmissiveIntensity = 0.5;
+
+// Windows collected for one building type while the city is built
+interface WindowPlacement {
+  layout: WindowLayout;
+  transforms: THREE.Matrix4[];
+  thresholds: number[];
+  shifts: number[];
+}
+
+export type WindowPlacements = Map<string, WindowPlacement>;
+
+// Instanced windows of one building type and their lighting pattern
+export interface WindowLayer {
+  type: string;
+  schedule: number[];
+  mesh: THREE.InstancedMesh;
+  material: THREE.MeshStandardMaterial;
+  thresholds: Float32Array; // Occupancy a window needs before it is lit
+  shifts: Float32Array; // Hours the window's building keeps early or late
+}
+
+// Function to add the windows on every side of a building's volumes to the
+// placements for its type, each with its own point in the schedule to
+// switch on. Returns the number of windows added.
+export function addWindows(
+  placements: WindowPlacements,
+  type: string,
+  layout: WindowLayout,
+  volumes: BuildingVolume[],
+  rng: Random
+) {
+  const placement = placements.get(type) ?? {
+    layout,
+    transforms: [],
+    thresholds: [],
+    shifts: [],
+  };
+  placements.set(type, placement);
+  const before = placement.transforms.length;
+
+  // Some buildings keep earlier or later hours than others
+  const shift = rng.range(-1, 1);
+
+  const position = new THREE.Vector3();
+  const rotation = new THREE.Quaternion();
+  const scale = new THREE.Vector3(1, 1, 1);
+  const up = new THREE.Vector3(0, 1, 0);
+
+  volumes.forEach((volume) => {
+    const { width, depth, height } = volume;
+    const floors = Math.floor(height / layout.spacing);
+
+    // Create windows for each side of the volume
+    const sides = [
+      { axis: "x", value: width / 2, length: depth, rotation: Math.PI / 2 },
+      { axis: "x", value: -width / 2, length: depth, rotation: -Math.PI / 2 },
+      { axis: "z", value: depth / 2, length: width, rotation: 0 },
+      { axis: "z", value: -depth / 2, length: width, rotation: Math.PI },
+    ];
+
+    sides.forEach((side) => {
+      rotation.setFromAxisAngle(up, side.rotation);
+      const windowsPerFloor = Math.floor(side.length / layout.spacing);
+
+      for (let floor = 0; floor < floors; floor++) {
+        for (let w = 0; w < windowsPerFloor; w++) {
+          // Position window relative to the volume's base center
+          const along = (w - windowsPerFloor / 2 + 0.5) * layout.spacing;
+          const y = volume.y + (floor + 0.5) * layout.spacing;
+          const faceOffset = side.value + 0.01; // Slight offset to avoid z-fighting
+
+          if (side.axis === "x") {
+            position.set(volume.x + faceOffset, y, volume.z + along);
+          } else {
+            position.set(volume.x + along, y, volume.z + faceOffset);
+          }
+
+          placement.transforms.push(
+            new THREE.Matrix4().compose(position, rotation, scale)
+          );
+          placement.thresholds.push(rng.next());
+          placement.shifts.push(shift);
+        }
+      }
+    });
+  });
+
+  return placement.transforms.length - before;
+}
+
+// Function to create one instanced mesh per building type from the
+// collected window placements. Every window starts out lit.
+export function createWindowLayers(placements: WindowPlacements) {
+  const layers: WindowLayer[] = [];
+
+  placements.forEach(({ layout, transforms, thresholds, shifts }, type) => {
+    if (transforms.length === 0) return;
+
+    const geometry = new THREE.PlaneGeometry(layout.size, layout.size);
+    const lit = new THREE.InstancedBufferAttribute(
+      new Float32Array(transforms.length).fill(1),
+      1
+    );
+    geometry.setAttribute("lit", lit);
+
+    const material = createWindowMaterial(layout.color);
+    const mesh = new THREE.InstancedMesh(geometry, material, transforms.length);
+    transforms.forEach((matrix, index) => mesh.setMatrixAt(index, matrix));
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.name = `${type} windows`;
+
+    layers.push({
+      type,
+      schedule: layout.schedule,
+      mesh,
+      material,
+      thresholds: Float32Array.from(thresholds),
+      shifts: Float32Array.from(shifts),
+    });
+  });
+
+  return layers;
+}
+
+// Function to create the shared material for one building type's windows.
+// The emissive glow is scaled by each instance's `lit` value.
+function createWindowMaterial(color: number) {
+  const material = new THREE.MeshStandardMaterial({
+    color,
+    emissive: color,
+    emissiveIntensity: litEmissiveIntensity,
+    transparent: true,
+    opacity: 0.9,
+  });
+
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        "#include <common>\nattribute float lit;\nvarying float vLit;"
+      )
+      .replace(
+        "#include <begin_vertex>",
+        "#include <begin_vertex>\nvLit = lit;"
+      );
+    shader.fragmentShader = shader.fragmentShader
+      .replace("#include <common>", "#include <common>\nvarying float vLit;")
+      .replace(
+        "#include <emissivemap_fragment>",
+        "#include <emissivemap_fragment>\ntotalEmissiveRadiance *= vLit;"
+      );
+  };
+
+  return material;
+}
+
+// Function to get the share of windows lit at an hour of the day, blending
+// between the hourly values of a schedule
+function getOccupancy(schedule: number[], hour: number) {
+  const wrapped = ((hour % 24) + 24) % 24;
+  const index = Math.floor(wrapped);
+  const t = wrapped - index;
+  return schedule[index] * (1 - t) + schedule[(index + 1) % 24] * t;
+}
+
+// Function to switch the windows of a layer on and off for an hour of the
+// day (0-24). Only touches the GPU attribute when a window changes.
+export function updateWindowSchedule(layer: WindowLayer, hour: number) {
+  const lit = layer.mesh.geometry.getAttribute(
+    "lit"
+  ) as THREE.InstancedBufferAttribute;
+  let changed = false;
+
+  for (let i = 0; i < layer.thresholds.length; i++) {
+    const occupancy = getOccupancy(layer.schedule, hour + layer.shifts[i]);
+    const value = occupancy > layer.thresholds[i] ? 1 : 0;
+    if (lit.getX(i) !== value) {
+      lit.setX(i, value);
+      changed = true;
+    }
+  }
+
+  if (changed) lit.needsUpdate = true;
+}
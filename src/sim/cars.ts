@@ -0,0 +1,701 @@
+import type { CityConfig, RoadAxis } from "../config";
+import type { Random } from "../random";
+import {
+  findRoute,
+  getCurveHeading,
+  getCurvePoint,
+  getExitSegments,
+  getHeadingFromDirection,
+  getNextSegments,
+  getPathPoint,
+  getTurnPath,
+  isReentry,
+  type LaneSegment,
+  type RoadNetwork,
+  type TurnPath,
+} from "./roadNetwork";
+import { crosswalkWidth } from "./intersections";
+import { getOccupiedCrosswalks, type PedestrianState } from "./pedestrians";
+import type { SidewalkNetwork } from "./sidewalks";
+import type { TrafficLightState } from "./trafficLights";
+import { getWeatherEffects, type WeatherState } from "./weather";
+import { getRoadPopulation, type Zoning } from "./zoning";
+
+// Plain simulation record for a car; the render layer builds meshes from it
+export interface CarState {
+  id: number;
+  x: number;
+  z: number;
+  heading: number; // Rotation about the vertical axis, in radians
+  speed: number; // Current speed, units per second
+  cruiseSpeed: number; // Speed the car drives at on an open road
+  segment: number; // Lane segment the car is on, or turning out of
+  distance: number; // Distance travelled along the segment or turn
+  turn: TurnPath | null; // Path through the intersection, while turning
+  route: number[]; // Lane segments from the current one to the destination
+  routeIndex: number; // Position of `segment` in `route`
+  direction: 1 | -1; // Direction of travel along the road axis
+  road: RoadAxis;
+  roadIndex: number;
+  lane: number; // Offset of the lane from the road center line
+  stoppingFor: number | null; // Id of the traffic light the car is stopping at
+  leaving: boolean; // Heading for the nearest way out of the city
+  color: number;
+}
+
+// Everything in the city that a car reacts to
+export interface CarEnvironment {
+  config: CityConfig;
+  rng: Random;
+  network: RoadNetwork;
+  trafficLights: TrafficLightState[];
+  sidewalks: SidewalkNetwork;
+  pedestrians: PedestrianState[];
+  weather: WeatherState;
+  zoning: Zoning;
+}
+
+const carColors = [0xff4444, 0x4444ff, 0x44ff44];
+
+export const carLength = 4;
+const acceleration = 4; // Units per second squared when pulling away
+const comfortableBraking = 6; // Deceleration used to plan a stop
+const maxBraking = 12; // Hardest the car will ever brake
+const stopLineTolerance = 0.25;
+const turningSpeed = 5; // Speed limit through left and right turns
+const entryGap = 20; // Room a car needs ahead of it to drive into the city
+
+// Intelligent Driver Model parameters for following the car ahead
+const minimumGap = 2; // Bumper-to-bumper gap kept when stopped in a queue
+const timeHeadway = 1.2; // Seconds of following distance at speed
+
+// Where a car was at the start of an update. Cars move while the update
+// runs, so leaders are found from these snapshots.
+interface TrafficEntry {
+  car: CarState;
+  distance: number; // Distance along the segment or turn
+  remaining: number; // Distance left to the end of the segment or turn
+  speed: number;
+}
+
+// Where every car is, indexed once per update for finding leaders
+interface TrafficIndex {
+  onSegment: Map<number, TrafficEntry[]>; // Cars driving along a segment
+  turningFrom: Map<number, TrafficEntry[]>; // Cars turning out of a segment
+  turningTo: Map<number, TrafficEntry[]>; // Cars turning onto a segment
+}
+
+// The nearest thing a car has to keep its distance from
+interface Obstacle {
+  gap: number; // Distance from the car's front bumper
+  speed: number;
+}
+
+// Function to create the starting cars on every road, more of them on
+// roads through busier zones. `share` scales the number on every road.
+export function createCars(env: CarEnvironment, share = 1) {
+  const { config, network, rng, zoning } = env;
+  const cars: CarState[] = [];
+
+  (["horizontal", "vertical"] as const).forEach((road) => {
+    // Group the lane segments of each road of this axis
+    const roads = new Map<number, LaneSegment[]>();
+    network.segments.forEach((segment) => {
+      if (segment.road !== road) return;
+      const segments = roads.get(segment.roadIndex) ?? [];
+      segments.push(segment);
+      roads.set(segment.roadIndex, segments);
+    });
+
+    roads.forEach((segments, roadIndex) => {
+      const count = getRoadPopulation(
+        zoning,
+        road,
+        roadIndex,
+        config.carsPerRoad * share,
+        "cars"
+      );
+      for (let c = 0; c < count; c++) {
+        const direction = c % 2 === 0 ? 1 : -1; // Alternate lanes
+        const spot = findFreeSpot(
+          cars,
+          segments.filter((candidate) => candidate.direction === direction),
+          rng
+        );
+        if (!spot) continue; // Lane is full
+        cars.push(placeCar(cars.length, spot.segment, spot.distance, env));
+      }
+    });
+  });
+
+  return cars;
+}
+
+// Function to bring a car into the city on a lane segment that enters it
+// from the edge. Returns the car, or null while the car let in before it
+// is still too close to the edge.
+export function spawnCar(
+  cars: CarState[],
+  env: CarEnvironment,
+  segment: LaneSegment,
+  id: number
+) {
+  const blocked = cars.some(
+    (other) =>
+      other.segment === segment.id &&
+      !other.turn &&
+      other.distance < carLength + entryGap
+  );
+  if (blocked || segment.length < carLength) return null;
+
+  const car = placeCar(id, segment, carLength / 2, env);
+  cars.push(car);
+  return car;
+}
+
+// Function to send a car out of the city, or keep it in. Its route is cut
+// short after the lane it is on or turning onto, so the next route it
+// plans heads for the nearest edge, or anywhere when it stays.
+export function setCarLeaving(car: CarState, leaving: boolean) {
+  car.leaving = leaving;
+  car.route = car.route.slice(0, car.routeIndex + (car.turn ? 2 : 1));
+}
+
+// Function to create a car a distance along a lane segment and plan its
+// first route
+function placeCar(
+  id: number,
+  segment: LaneSegment,
+  distance: number,
+  env: CarEnvironment
+) {
+  const { network, rng } = env;
+  const cruiseSpeed = rng.next() * 12 + 6; // 6-18 units per second
+
+  const car: CarState = {
+    id,
+    x: 0,
+    z: 0,
+    heading: 0,
+    speed: cruiseSpeed,
+    cruiseSpeed,
+    segment: segment.id,
+    distance,
+    turn: null,
+    route: [segment.id],
+    routeIndex: 0,
+    direction: segment.direction,
+    road: segment.road,
+    roadIndex: segment.roadIndex,
+    lane: segment.lane,
+    stoppingFor: null,
+    leaving: false,
+    color: pickCarColor(rng),
+  };
+
+  planRoute(car, env);
+  updateCarPose(car, network);
+  return car;
+}
+
+// Function to pick a random place on one of the given lane segments that no
+// other car overlaps, giving up after a few attempts
+function findFreeSpot(cars: CarState[], segments: LaneSegment[], rng: Random) {
+  const spacing = carLength + minimumGap;
+
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const segment = rng.pick(segments);
+    if (segment.length < carLength) continue;
+
+    const distance = carLength / 2 + rng.next() * (segment.length - carLength);
+    const overlaps = cars.some(
+      (other) =>
+        other.segment === segment.id &&
+        Math.abs(other.distance - distance) < spacing
+    );
+    if (!overlaps) return { segment, distance };
+  }
+
+  return undefined;
+}
+
+// Function to pick a body color (red is twice as common as blue or green)
+function pickCarColor(rng: Random) {
+  return rng.next() > 0.5
+    ? carColors[0]
+    : rng.next() > 0.5
+    ? carColors[1]
+    : carColors[2];
+}
+
+// Function to pick a new destination for a car and plan the shortest route
+// to it from the segment the car is on. A car that is leaving heads for
+// the nearest lane out of the city.
+function planRoute(car: CarState, env: CarEnvironment) {
+  const { network, rng } = env;
+  if (network.segments.length < 2) return;
+
+  const exits = car.leaving ? getExitSegments(network) : [];
+  if (exits.length > 0) {
+    const away = (segment: LaneSegment) =>
+      Math.hypot(segment.end.x - car.x, segment.end.z - car.z);
+    const exit = exits.reduce((best, segment) =>
+      away(segment) < away(best) ? segment : best
+    );
+    car.route = findRoute(network, car.segment, exit.id) ?? [car.segment];
+    car.routeIndex = 0;
+    return;
+  }
+
+  let destination = rng.int(0, network.segments.length - 1);
+  if (destination >= car.segment) destination++; // Never the current segment
+
+  car.route = findRoute(network, car.segment, destination) ?? [car.segment];
+  car.routeIndex = 0;
+}
+
+// Function to get the segment a car will drive onto after its current one,
+// planning a new route once it reaches its destination
+function getNextRouteSegment(car: CarState, env: CarEnvironment) {
+  if (car.routeIndex + 1 >= car.route.length) {
+    planRoute(car, env);
+  }
+
+  const next = car.route[car.routeIndex + 1];
+  if (next !== undefined) return next;
+
+  // No route (unreachable destination): carry on along any open lane
+  return env.rng.pick(getNextSegments(env.network, car.segment));
+}
+
+// Function to move a car onto a new lane segment
+function enterSegment(car: CarState, segment: LaneSegment) {
+  car.segment = segment.id;
+  car.turn = null;
+  car.direction = segment.direction;
+  car.road = segment.road;
+  car.roadIndex = segment.roadIndex;
+  car.lane = segment.lane;
+  if (car.route[car.routeIndex + 1] === segment.id) {
+    car.routeIndex++;
+  } else {
+    car.route = [segment.id];
+    car.routeIndex = 0;
+  }
+}
+
+// Function to find the traffic light controlling the end of a car's lane
+// segment and the distance from the car's front bumper to its stop line
+function findNextSignal(car: CarState, env: CarEnvironment) {
+  if (car.turn) return undefined; // Already in the intersection
+
+  const segment = env.network.segments[car.segment];
+  const node = env.network.nodes[segment.to];
+  if (segment.stopLine === null || node.intersection === null) {
+    return undefined;
+  }
+
+  const distance = segment.stopLine - (car.distance + carLength / 2);
+
+  // Signals whose stop line the car has already passed no longer apply.
+  // The small tolerance keeps a car that is stopped right on the line
+  // waiting there.
+  if (distance < -stopLineTolerance) return undefined;
+
+  const light = env.trafficLights.find(
+    (candidate) =>
+      candidate.intersection === node.intersection &&
+      candidate.axis === segment.road
+  );
+  return light ? { light, distance: Math.max(0, distance) } : undefined;
+}
+
+// Function to get how far a car may travel before it has to be stopped for
+// the next signal, or Infinity when it may drive on
+function getSignalStopDistance(car: CarState, env: CarEnvironment) {
+  const signal = findNextSignal(car, env);
+  if (!signal || signal.light.state === "green") {
+    car.stoppingFor = null;
+    return Infinity;
+  }
+
+  // Decide whether to stop. On yellow, only stop if it can be done
+  // comfortably; a car too close to the line carries on and clears the
+  // intersection before the light turns red. Red always means stop. Once
+  // decided, the car keeps stopping until the light turns green.
+  if (car.stoppingFor !== signal.light.id) {
+    const canStop =
+      car.speed <= Math.sqrt(2 * comfortableBraking * signal.distance);
+    if (signal.light.state === "yellow" && !canStop) {
+      return Infinity;
+    }
+    car.stoppingFor = signal.light.id;
+  }
+
+  return signal.distance;
+}
+
+// Function to get the speed a car can drive at on the open road, slowing it
+// down ahead of and through turns
+function getCruiseSpeed(car: CarState, env: CarEnvironment) {
+  const { segments } = env.network;
+  const limit = Math.min(car.cruiseSpeed, turningSpeed);
+
+  if (car.turn) {
+    const turning = segments[car.turn.from].road !== segments[car.turn.to].road;
+    return turning ? limit : car.cruiseSpeed;
+  }
+
+  const next = car.route[car.routeIndex + 1];
+  if (next === undefined || segments[next].road === car.road) {
+    return car.cruiseSpeed;
+  }
+
+  // Brake comfortably so the car enters the turn at the turning speed
+  const remaining = Math.max(0, segments[car.segment].length - car.distance);
+  return Math.min(
+    car.cruiseSpeed,
+    Math.sqrt(limit * limit + 2 * comfortableBraking * remaining)
+  );
+}
+
+// Function to index cars by the lane segment or turn they are on
+function indexTraffic(cars: CarState[], network: RoadNetwork): TrafficIndex {
+  const index: TrafficIndex = {
+    onSegment: new Map(),
+    turningFrom: new Map(),
+    turningTo: new Map(),
+  };
+  const add = (
+    map: Map<number, TrafficEntry[]>,
+    key: number,
+    entry: TrafficEntry
+  ) => {
+    const list = map.get(key);
+    if (list) list.push(entry);
+    else map.set(key, [entry]);
+  };
+
+  cars.forEach((car) => {
+    const length = car.turn
+      ? car.turn.length
+      : network.segments[car.segment].length;
+    const entry = {
+      car,
+      distance: car.distance,
+      remaining: length - car.distance,
+      speed: car.speed,
+    };
+
+    if (car.turn) {
+      add(index.turningFrom, car.turn.from, entry);
+      add(index.turningTo, car.turn.to, entry);
+    } else {
+      add(index.onSegment, car.segment, entry);
+    }
+  });
+
+  return index;
+}
+
+// Function to find the nearest car ahead of a car in its lane: on the rest
+// of its current segment or turn, in the intersection it is approaching,
+// or on the next lane segment of its route
+function findLeader(
+  car: CarState,
+  index: TrafficIndex,
+  env: CarEnvironment
+): Obstacle | undefined {
+  const { segments } = env.network;
+  let leader: Obstacle | undefined;
+
+  // Function to consider another car whose center is `ahead` units in front
+  const consider = (other: TrafficEntry, ahead: number) => {
+    if (other.car === car || ahead <= 0) return;
+    const gap = ahead - carLength;
+    if (!leader || gap < leader.gap) {
+      leader = { gap, speed: other.speed };
+    }
+  };
+
+  // Distance from this car to the start of the next lane segment
+  let toNextSegment: number;
+  let nextSegment: number | undefined;
+
+  if (car.turn) {
+    const remaining = car.turn.length - car.distance;
+    index.turningTo.get(car.turn.to)?.forEach((other) => {
+      consider(other, remaining - other.remaining);
+    });
+    toNextSegment = remaining;
+    nextSegment = car.turn.to;
+  } else {
+    const segment = segments[car.segment];
+    const remaining = segment.length - car.distance;
+    index.onSegment.get(car.segment)?.forEach((other) => {
+      consider(other, other.distance - car.distance);
+    });
+
+    // Cars in the intersection ahead that came from this lane
+    index.turningFrom.get(car.segment)?.forEach((other) => {
+      consider(other, remaining + other.distance);
+    });
+
+    nextSegment = car.route[car.routeIndex + 1];
+    if (nextSegment === undefined) return leader;
+
+    if (isReentry(env.network, car.segment, nextSegment)) {
+      // Under traffic demand the car leaves the city instead
+      if (env.config.demand) return leader;
+      toNextSegment = remaining; // Re-enters directly, no turn
+    } else {
+      // Straight-line length of the coming turn is close enough here
+      const next = segments[nextSegment];
+      toNextSegment =
+        remaining +
+        Math.hypot(next.start.x - segment.end.x, next.start.z - segment.end.z);
+
+      // Cars from any approach already turning onto the same lane
+      index.turningTo.get(nextSegment)?.forEach((other) => {
+        consider(other, toNextSegment - other.remaining);
+      });
+    }
+  }
+
+  index.onSegment.get(nextSegment)?.forEach((other) => {
+    consider(other, toNextSegment + other.distance);
+  });
+
+  return leader;
+}
+
+// Function to get how far a car may travel before it reaches a crosswalk
+// that people are walking on: the one at the end of its lane, or the one it
+// turns across as it leaves the intersection. Returns Infinity when the way
+// is clear. A car already on a crosswalk carries on over it.
+function getCrosswalkStopDistance(
+  car: CarState,
+  occupied: Set<number>,
+  env: CarEnvironment
+) {
+  const { segments } = env.network;
+  const front = car.distance + carLength / 2;
+  let blockedEnd = false;
+  let blockedStart = false;
+  const next = car.turn ? car.turn.to : car.route[car.routeIndex + 1];
+
+  occupied.forEach((id) => {
+    const crosswalk = env.sidewalks.crosswalks[id];
+    if (!car.turn && crosswalk.entering.includes(car.segment)) {
+      blockedEnd = true;
+    }
+    if (next !== undefined && crosswalk.leaving.includes(next)) {
+      blockedStart = true;
+    }
+  });
+
+  if (car.turn) {
+    const distance = car.turn.length - front;
+    return blockedStart && distance >= 0 ? distance : Infinity;
+  }
+
+  const segment = segments[car.segment];
+  const toCrosswalk = segment.length - crosswalkWidth - front;
+  if (blockedEnd && toCrosswalk >= 0) return toCrosswalk;
+
+  // The crosswalk just past the intersection
+  if (blockedStart && next !== undefined) {
+    const across = Math.hypot(
+      segments[next].start.x - segment.end.x,
+      segments[next].start.z - segment.end.z
+    );
+    return segment.length - front + across;
+  }
+
+  return Infinity;
+}
+
+// Function to get how far a car may travel before it has to wait for room
+// on the lane past the intersection ahead. A car never drives into an
+// intersection it cannot clear, so queues do not spill over crosswalks.
+function getExitBlockedDistance(
+  car: CarState,
+  index: TrafficIndex,
+  env: CarEnvironment
+) {
+  const { segments, nodes } = env.network;
+  if (car.turn) return Infinity;
+
+  const segment = segments[car.segment];
+  const next = car.route[car.routeIndex + 1];
+  if (next === undefined || nodes[segment.to].kind !== "intersection") {
+    return Infinity;
+  }
+
+  // Room left behind the last car on the next lane, which has to fit this
+  // car and every car still turning onto it
+  let tail = segments[next].length;
+  index.onSegment.get(next)?.forEach((other) => {
+    tail = Math.min(tail, other.distance - carLength / 2);
+  });
+  const turning = index.turningTo.get(next)?.length ?? 0;
+  const needed = crosswalkWidth + (turning + 1) * (carLength + minimumGap);
+  if (tail >= needed) return Infinity;
+
+  const waitAt = segment.stopLine ?? segment.length - crosswalkWidth;
+  const distance = waitAt - (car.distance + carLength / 2);
+  return distance >= 0 ? distance : Infinity;
+}
+
+// Function to get a car's acceleration from the Intelligent Driver Model:
+// it speeds up towards its desired speed and brakes to keep a safe,
+// speed-dependent gap to the obstacle ahead
+function getIdmAcceleration(
+  speed: number,
+  desiredSpeed: number,
+  obstacle: Obstacle | undefined,
+  headway: number
+) {
+  const freeRoad = 1 - Math.pow(speed / Math.max(desiredSpeed, 0.1), 4);
+  if (!obstacle) return acceleration * freeRoad;
+
+  const closingSpeed = speed - obstacle.speed;
+  const desiredGap =
+    minimumGap +
+    Math.max(
+      0,
+      speed * headway +
+        (speed * closingSpeed) /
+          (2 * Math.sqrt(acceleration * comfortableBraking))
+    );
+  const gap = Math.max(obstacle.gap, 0.01);
+
+  return acceleration * (freeRoad - Math.pow(desiredGap / gap, 2));
+}
+
+// Function to move a car a distance along its route, through turns and
+// onto the following lane segments. Returns true if the car drove out of
+// the city, which it only does under the config's traffic demand.
+function advanceCar(car: CarState, step: number, env: CarEnvironment) {
+  const { network } = env;
+  car.distance += step;
+
+  for (;;) {
+    const pathLength = car.turn
+      ? car.turn.length
+      : network.segments[car.segment].length;
+    if (car.distance < pathLength) break;
+
+    car.distance -= pathLength;
+
+    if (car.turn) {
+      // Leaving the intersection onto the next lane
+      enterSegment(car, network.segments[car.turn.to]);
+      continue;
+    }
+
+    const { to } = network.segments[car.segment];
+    if (env.config.demand && network.nodes[to].kind === "edge") return true;
+
+    const next = getNextRouteSegment(car, env);
+    if (isReentry(network, car.segment, next)) {
+      // Re-enter the city from the opposite edge
+      enterSegment(car, network.segments[next]);
+    } else {
+      car.turn = getTurnPath(network, car.segment, next);
+    }
+  }
+
+  return false;
+}
+
+// Function to set a car's position and heading from where it is on its path
+function updateCarPose(car: CarState, network: RoadNetwork) {
+  if (car.turn) {
+    const { start, control, end, length } = car.turn;
+    const t = Math.min(1, car.distance / length);
+    const point = getCurvePoint(start, control, end, t);
+    car.x = point.x;
+    car.z = point.z;
+    car.heading = getCurveHeading(start, control, end, t);
+    return;
+  }
+
+  const segment = network.segments[car.segment];
+  if (segment.path) {
+    const point = getPathPoint(segment.path, car.distance);
+    car.x = point.x;
+    car.z = point.z;
+    car.heading = getHeadingFromDirection(point.dx, point.dz);
+    return;
+  }
+
+  const t = segment.length > 0 ? car.distance / segment.length : 0;
+  car.x = segment.start.x + (segment.end.x - segment.start.x) * t;
+  car.z = segment.start.z + (segment.end.z - segment.start.z) * t;
+  car.heading = getHeadingFromDirection(
+    segment.end.x - segment.start.x,
+    segment.end.z - segment.start.z
+  );
+}
+
+// Function to update car positions. Cars that drive out of the city are
+// taken off the list.
+export function updateCars(cars: CarState[], env: CarEnvironment, dt: number) {
+  const index = indexTraffic(cars, env.network);
+  const occupied = getOccupiedCrosswalks(env.pedestrians, env.sidewalks);
+
+  // Bad weather makes everyone drive slower and leave longer gaps
+  const { speedFactor, headwayFactor } = getWeatherEffects(env.weather);
+  const headway = timeHeadway * headwayFactor;
+  const left = new Set<CarState>();
+
+  cars.forEach((car) => {
+    // Plan ahead so the car can see the traffic beyond its destination
+    if (!car.turn && car.routeIndex + 1 >= car.route.length) {
+      planRoute(car, env);
+    }
+
+    const desiredSpeed = getCruiseSpeed(car, env) * speedFactor;
+    const leader = findLeader(car, index, env);
+
+    // A red or yellow light the car is stopping at, a crosswalk it has to
+    // yield at or a full lane ahead acts like a stopped car standing just
+    // past that point
+    const stopDistance = Math.min(
+      getSignalStopDistance(car, env),
+      getCrosswalkStopDistance(car, occupied, env),
+      getExitBlockedDistance(car, index, env)
+    );
+    const signal =
+      stopDistance < Infinity
+        ? { gap: stopDistance + minimumGap, speed: 0 }
+        : undefined;
+
+    // Follow whichever of the two needs the harder braking
+    const accelerationNow = Math.max(
+      -maxBraking,
+      Math.min(
+        getIdmAcceleration(car.speed, desiredSpeed, leader, headway),
+        getIdmAcceleration(car.speed, desiredSpeed, signal, headway)
+      )
+    );
+    car.speed = Math.max(0, car.speed + accelerationNow * dt);
+
+    // Never roll over a stop line or into the car ahead
+    let step = car.speed * dt;
+    const room = Math.min(stopDistance, leader ? leader.gap : Infinity);
+    if (step >= room) {
+      step = Math.max(0, room);
+      car.speed = step / dt;
+    }
+
+    // Move the car along its route
+    if (advanceCar(car, step, env)) left.add(car);
+    else updateCarPose(car, env.network);
+  });
+
+  if (left.size > 0) {
+    cars.splice(0, Infinity, ...cars.filter((car) => !left.has(car)));
+  }
+}
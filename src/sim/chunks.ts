@@ -0,0 +1,99 @@
+// Chunks of an unbounded city. The ground is tiled with chunks the size of
+// the city, each one a grid city of its own whose roads line up with its
+// neighbours'. The home chunk at 0, 0 is the city of the seed itself; every
+// other chunk is generated from a seed derived from its coordinates, so a
+// chunk always comes back the same however the camera got there.
+
+import { createCityConfig, type CityConfig } from "../config";
+import { createRandom, deriveSeed } from "../random";
+import type { Point } from "./roadNetwork";
+import {
+  createSimulation,
+  stepAgents,
+  type CitySimulation,
+} from "./simulation";
+import { setIntersectionTime, updateTrafficLights } from "./trafficLights";
+import { createZoning } from "./zoning";
+
+// Position of a chunk in chunks from the home chunk
+export interface ChunkCoord {
+  x: number;
+  z: number;
+}
+
+// Function to get the seed a chunk is generated from
+export function getChunkSeed(seed: number, chunk: ChunkCoord) {
+  if (chunk.x === 0 && chunk.z === 0) return seed;
+  return deriveSeed(seed, `chunk ${chunk.x},${chunk.z}`);
+}
+
+// Function to get the config of the generated chunks: the city's, without
+// the road and zoning maps drawn for the home chunk
+export function getChunkConfig(config: CityConfig) {
+  return createCityConfig({ ...config, roadMap: null, zoningMap: null });
+}
+
+// Function to get the zoning of a chunk, as its simulation would have it
+export function getChunkZoning(config: CityConfig, seed: number) {
+  return createZoning(config, createRandom(deriveSeed(seed, "zoning")));
+}
+
+// Function to get a key that names a chunk in maps
+export function getChunkKey(chunk: ChunkCoord) {
+  return `${chunk.x},${chunk.z}`;
+}
+
+// Function to find the chunk a scene point lies in
+export function getChunkAt(config: CityConfig, point: Point): ChunkCoord {
+  const { gridSize } = config;
+  return {
+    x: Math.floor((point.x + gridSize / 2) / gridSize),
+    z: Math.floor((point.z + gridSize / 2) / gridSize),
+  };
+}
+
+// Function to get the scene position of a chunk's center
+export function getChunkOrigin(config: CityConfig, chunk: ChunkCoord): Point {
+  return { x: chunk.x * config.gridSize, z: chunk.z * config.gridSize };
+}
+
+// Function to count the chunks between two chunks, diagonal steps included
+export function getChunkDistance(a: ChunkCoord, b: ChunkCoord) {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.z - b.z));
+}
+
+// Function to list the chunks within a distance of a chunk, nearest first
+export function getChunksAround(center: ChunkCoord, radius: number) {
+  const chunks: ChunkCoord[] = [];
+  for (let x = center.x - radius; x <= center.x + radius; x++) {
+    for (let z = center.z - radius; z <= center.z + radius; z++) {
+      chunks.push({ x, z });
+    }
+  }
+  return chunks.sort(
+    (a, b) => getChunkDistance(a, center) - getChunkDistance(b, center)
+  );
+}
+
+// Function to create the simulation of a chunk's traffic. It shares the
+// city's clock and weather, and its signals are set to the city's time.
+export function createChunkSimulation(
+  city: CitySimulation,
+  chunk: ChunkCoord
+): CitySimulation {
+  const sim = createSimulation({
+    seed: getChunkSeed(city.seed, chunk),
+    config: getChunkConfig(city.config),
+  });
+  sim.intersections.forEach((intersection) =>
+    setIntersectionTime(intersection, sim.trafficLights, city.clock.time)
+  );
+  return { ...sim, clock: city.clock, weather: city.weather };
+}
+
+// Function to advance a chunk's signals and traffic by one step of `dt`
+// seconds. The weather is left to the city that owns it.
+export function stepChunkSimulation(sim: CitySimulation, dt: number) {
+  updateTrafficLights(sim.intersections, sim.trafficLights, dt);
+  stepAgents(sim, dt);
+}
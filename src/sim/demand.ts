@@ -0,0 +1,148 @@
+// Traffic demand over the day. The config's hourly demand curves give the
+// share of the city's full traffic that is out at each hour: busiest in
+// the morning and evening rush hours, quietest at night. While there are
+// too few cars, more drive in on the lanes entering the city from its
+// edges; while there are too many, some head for the nearest edge and
+// leave. People likewise step out of the buildings along the sidewalks,
+// and go back in at the next corner. Anyone reaching the edge leaves.
+
+import type { RoadAxis } from "../config";
+import type { Random } from "../random";
+import { setCarLeaving, spawnCar } from "./cars";
+import { spawnPedestrian } from "./pedestrians";
+import { getEntrySegments } from "./roadNetwork";
+import type { CitySimulation } from "./simulation";
+import { getPopulatedRoads, getRoadPopulation } from "./zoning";
+
+// Ids for the next car and pedestrian to come into the city. They only
+// count up, so a newcomer never takes the id of someone who left.
+export interface AgentIds {
+  car: number;
+  pedestrian: number;
+}
+
+// Numbers of cars and pedestrians in the city
+export interface TrafficCount {
+  cars: number;
+  pedestrians: number;
+}
+
+const entryInterval = 2; // Average seconds between cars driving in at an entry
+const stepOutTime = 2; // Average seconds for a wanted pedestrian to step out
+
+// Function to get the share of a demand curve at a time of day in hours,
+// blending between the hours either side
+export function getDemandShare(curve: number[], hour: number) {
+  const from = Math.floor(hour) % 24;
+  const blend = hour - Math.floor(hour);
+  return curve[from] + (curve[(from + 1) % 24] - curve[from]) * blend;
+}
+
+// Function to count the cars and pedestrians the city holds at full
+// demand: the starting population of every road with lanes or sidewalks.
+// The count only changes with the roads, so simulations keep it.
+export function getFullTraffic(
+  sim: Pick<CitySimulation, "config" | "zoning" | "network" | "sidewalks">
+): TrafficCount {
+  const { config, zoning, network, sidewalks } = sim;
+
+  // Function to add up the population of the roads some lanes or sidewalk
+  // links run along
+  const total = (
+    lines: { road: RoadAxis; roadIndex: number }[],
+    base: number,
+    key: keyof TrafficCount
+  ) => {
+    let sum = 0;
+    getPopulatedRoads(lines).forEach(({ road, roadIndex }) => {
+      sum += getRoadPopulation(zoning, road, roadIndex, base, key);
+    });
+    return sum;
+  };
+
+  return {
+    cars: total(network.segments, config.carsPerRoad, "cars"),
+    pedestrians: total(
+      sidewalks.links.filter((link) => link.crosswalk === null),
+      config.pedestriansPerRoad,
+      "pedestrians"
+    ),
+  };
+}
+
+// Function to get the numbers of cars and pedestrians the demand asks for
+// at a time of day in hours, or null when the config has no demand
+export function getDemandTargets(
+  sim: CitySimulation,
+  hour: number
+): TrafficCount | null {
+  const { demand } = sim.config;
+  if (!demand) return null;
+
+  const full = sim.fullTraffic;
+  return {
+    cars: Math.round(full.cars * getDemandShare(demand.cars, hour)),
+    pedestrians: Math.round(
+      full.pedestrians * getDemandShare(demand.pedestrians, hour)
+    ),
+  };
+}
+
+// Function to move the numbers of cars and pedestrians towards the demand
+// at a time of day in hours, over one step of `dt` seconds
+export function updateDemand(sim: CitySimulation, hour: number, dt: number) {
+  const targets = getDemandTargets(sim, hour);
+  if (!targets) return;
+  const { cars, pedestrians, rng, ids } = sim;
+
+  let missingCars = balance(cars, targets.cars, rng, setCarLeaving);
+  getEntrySegments(sim.network).forEach((segment) => {
+    if (
+      missingCars > 0 &&
+      rng.chance(dt / entryInterval) &&
+      spawnCar(cars, sim, segment, ids.car)
+    ) {
+      ids.car++;
+      missingCars--;
+    }
+  });
+
+  const missingPedestrians = balance(
+    pedestrians,
+    targets.pedestrians,
+    rng,
+    (pedestrian, leaving) => (pedestrian.leaving = leaving)
+  );
+  if (
+    missingPedestrians > 0 &&
+    rng.chance((missingPedestrians * dt) / stepOutTime) &&
+    spawnPedestrian(pedestrians, sim, ids.pedestrian)
+  ) {
+    ids.pedestrian++;
+  }
+}
+
+// Function to send agents away while more are staying than the target, or
+// keep those on their way out while fewer are. Returns how many more have
+// to come in.
+function balance<T extends { leaving: boolean }>(
+  agents: T[],
+  target: number,
+  rng: Random,
+  setLeaving: (agent: T, leaving: boolean) => void
+) {
+  const staying = agents.filter((agent) => !agent.leaving);
+  if (staying.length > target) {
+    for (let k = staying.length - target; k > 0; k--) {
+      const [agent] = staying.splice(rng.int(0, staying.length), 1);
+      setLeaving(agent, true);
+    }
+    return 0;
+  }
+
+  agents
+    .filter((agent) => agent.leaving)
+    .slice(0, target - staying.length)
+    .forEach((agent) => setLeaving(agent, false));
+  return target - agents.length;
+}
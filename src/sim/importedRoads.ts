@@ -0,0 +1,484 @@
+// Roads of a city layout imported from GeoJSON, for cars and pedestrians.
+// The imported center lines are cut into pieces wherever a line ends or
+// shares a vertex with another line (or with itself), and those points
+// become the nodes of the road network. Every piece gets a lane segment
+// for each of its lanes, following the line. Loose ends at the edge of the
+// layout are where traffic comes and goes; other loose ends are dead ends,
+// where cars turn back. Where three or more pieces meet, a controller
+// gives green in turn to the pieces that run mostly along x and to those
+// that run mostly along z. Sidewalks follow both sides of every piece,
+// meet between neighbouring pieces around a node, and cross each piece
+// on a crosswalk.
+
+import {
+  getBlockSize,
+  getCellIndex,
+  type CityConfig,
+  type RoadAxis,
+} from "../config";
+import { offsetPolyline, type CityLayout } from "../geojson";
+import type { Random } from "../random";
+import { crosswalkWidth, laneOffset, stopLineWidth } from "./intersections";
+import {
+  getPathLength,
+  getPathPoint,
+  slicePath,
+  type LaneSegment,
+  type Point,
+  type RoadNetwork,
+  type RoadNode,
+} from "./roadNetwork";
+import type {
+  Crosswalk,
+  SidewalkLink,
+  SidewalkNetwork,
+  SidewalkNode,
+} from "./sidewalks";
+import { addIntersection, type TrafficSignals } from "./trafficLights";
+import type { ZonedPath } from "./zoning";
+
+// Part of an imported road between two nodes
+interface RoadPiece {
+  road: number; // Index of the road in the layout
+  points: Point[]; // Center line, from node `from` to node `to`
+  length: number;
+  axis: RoadAxis; // Whether it runs mostly along x or along z
+  from: number;
+  to: number;
+  segments: number[]; // Ids of its lane segments
+}
+
+// One end of a piece, seen from the node it ends at
+interface Arm {
+  piece: RoadPiece;
+  atStart: boolean; // Whether the piece starts at the node
+  angle: number; // Direction away from the node, about the vertical axis
+  cut: number; // Distance from the node to where the lanes end
+  kerbs: { left: number; right: number }; // Sidewalk nodes at the crosswalk
+}
+
+// Everything the simulation needs of an imported layout's roads
+export interface ImportedRoads extends TrafficSignals {
+  network: RoadNetwork;
+  sidewalks: SidewalkNetwork;
+  paths: Map<string, ZonedPath>; // For the zoning, to populate the roads
+}
+
+const edgeMargin = laneOffset * 4; // Reach of loose ends leading out
+const bearingReach = 5; // Distance along a piece that sets its direction
+
+// Function to build the road network, signals and sidewalks of an
+// imported layout
+export function createImportedRoads(
+  config: CityConfig,
+  layout: CityLayout,
+  rng: Random
+): ImportedRoads {
+  const { nodes, pieces } = splitRoads(layout);
+  const arms = getArms(layout, nodes, pieces);
+  const signals: TrafficSignals = { intersections: [], trafficLights: [] };
+
+  // Signals where three or more pieces meet, with the head for each axis
+  // on the corner to the right of one of its pieces
+  nodes.forEach((node) => {
+    const around = arms[node.id];
+    if (node.kind !== "intersection" || around.length < 3) return;
+
+    const getHead = (axis: RoadAxis) => {
+      const arm = around.find((candidate) => candidate.piece.axis === axis);
+      return getArmPoint(layout, node, arm ?? around[0], 0, arm ? 1 : -1);
+    };
+    node.intersection = addIntersection(
+      signals,
+      config,
+      rng,
+      getCellIndex(config, node.x),
+      getCellIndex(config, node.z),
+      node,
+      { horizontal: getHead("horizontal"), vertical: getHead("vertical") }
+    ).id;
+  });
+
+  const network = createLanes(layout, nodes, pieces, arms);
+  return {
+    ...signals,
+    network,
+    sidewalks: createSidewalks(layout, nodes, pieces, arms, network),
+    paths: getZonedPaths(config, pieces),
+  };
+}
+
+// Function to cut the roads of a layout into pieces between nodes: the
+// ends of every road and the vertices used more than once. A road that
+// comes back to where it started is also cut halfway round, so no piece
+// starts and ends at the same node.
+function splitRoads(layout: CityLayout) {
+  const getKey = (point: Point) => `${point.x},${point.z}`;
+  const uses = new Map<string, number>();
+  layout.roads.forEach((road) =>
+    road.points.forEach((point, index) => {
+      const end = index === 0 || index === road.points.length - 1;
+      const key = getKey(point);
+      uses.set(key, (uses.get(key) ?? 0) + (end ? 2 : 1));
+    })
+  );
+
+  const nodes: RoadNode[] = [];
+  const nodeIds = new Map<string, number>();
+  const getNode = (point: Point) => {
+    const key = getKey(point);
+    if (!nodeIds.has(key)) {
+      nodeIds.set(key, nodes.length);
+      nodes.push({
+        id: nodes.length,
+        x: point.x,
+        z: point.z,
+        kind: "intersection",
+        intersection: null,
+      });
+    }
+    return nodeIds.get(key)!;
+  };
+
+  const pieces: RoadPiece[] = [];
+  layout.roads.forEach((road, roadIndex) => {
+    const { points } = road;
+    const stops: number[] = [];
+    points.forEach((point, index) => {
+      if (uses.get(getKey(point))! < 2) return;
+      const last = stops[stops.length - 1];
+      if (last !== undefined && getKey(points[last]) === getKey(point)) {
+        stops.push(Math.floor((last + index) / 2));
+      }
+      stops.push(index);
+    });
+
+    for (let s = 1; s < stops.length; s++) {
+      const piecePoints = points.slice(stops[s - 1], stops[s] + 1);
+      const first = piecePoints[0];
+      const last = piecePoints[piecePoints.length - 1];
+      pieces.push({
+        road: roadIndex,
+        points: piecePoints,
+        length: getPathLength(piecePoints),
+        axis:
+          Math.abs(last.x - first.x) >= Math.abs(last.z - first.z)
+            ? "horizontal"
+            : "vertical",
+        from: getNode(first),
+        to: getNode(last),
+        segments: [],
+      });
+    }
+  });
+
+  // Loose ends at the edge of the layout lead out of the city
+  const ends = nodes.map(() => 0);
+  pieces.forEach((piece) => {
+    ends[piece.from]++;
+    ends[piece.to]++;
+  });
+  const [minX, maxX, minZ, maxZ] = nodes.reduce(
+    ([x0, x1, z0, z1], node) => [
+      Math.min(x0, node.x),
+      Math.max(x1, node.x),
+      Math.min(z0, node.z),
+      Math.max(z1, node.z),
+    ],
+    [Infinity, -Infinity, Infinity, -Infinity]
+  );
+  nodes.forEach((node) => {
+    const atEdge =
+      node.x - minX < edgeMargin ||
+      maxX - node.x < edgeMargin ||
+      node.z - minZ < edgeMargin ||
+      maxZ - node.z < edgeMargin;
+    if (ends[node.id] === 1 && atEdge) node.kind = "edge";
+  });
+
+  return { nodes, pieces };
+}
+
+// Function to list the arms of every node, in order of their direction.
+// Lanes stop short of an intersection by half the width of its widest
+// road, and at most a little under half a piece's length.
+function getArms(layout: CityLayout, nodes: RoadNode[], pieces: RoadPiece[]) {
+  const arms: Arm[][] = nodes.map(() => []);
+
+  pieces.forEach((piece) => {
+    [true, false].forEach((atStart) => {
+      const node = nodes[atStart ? piece.from : piece.to];
+      const reach = Math.min(piece.length / 2, bearingReach);
+      const ahead = getPathPoint(
+        piece.points,
+        atStart ? reach : piece.length - reach
+      );
+      arms[node.id].push({
+        piece,
+        atStart,
+        angle: Math.atan2(ahead.z - node.z, ahead.x - node.x),
+        cut: 0,
+        kerbs: { left: -1, right: -1 },
+      });
+    });
+  });
+
+  nodes.forEach((node) => {
+    const around = arms[node.id];
+    around.sort((a, b) => a.angle - b.angle);
+    if (node.kind === "edge") return;
+
+    const clearance = around.reduce(
+      (widest, arm) =>
+        Math.max(widest, layout.roads[arm.piece.road].width / 2 + 1),
+      0
+    );
+    around.forEach((arm) => {
+      arm.cut = Math.min(clearance, arm.piece.length * 0.4);
+    });
+  });
+
+  return arms;
+}
+
+// Function to get the arm of a piece at one of its ends
+function getArm(arms: Arm[][], piece: RoadPiece, atStart: boolean) {
+  return arms[atStart ? piece.from : piece.to].find(
+    (arm) => arm.piece === piece && arm.atStart === atStart
+  )!;
+}
+
+// Function to get a point `along` past where an arm's lanes end, `side`
+// times the distance of its sidewalks out to the right of the arm
+function getArmPoint(
+  layout: CityLayout,
+  node: RoadNode,
+  arm: Arm,
+  along: number,
+  side: number
+): Point {
+  const across = (layout.roads[arm.piece.road].width / 2 + 1) * side;
+  const distance = arm.cut + along;
+  const [dx, dz] = [Math.cos(arm.angle), Math.sin(arm.angle)];
+  return {
+    x: node.x + dx * distance - dz * across,
+    z: node.z + dz * distance + dx * across,
+  };
+}
+
+// Function to build a lane segment for every lane of every piece. Lanes
+// running along the line keep to its right and take the larger half of an
+// odd count; a two-way road has at least one lane each way. One-way pieces
+// into a node that no lane leads out of, like a dead end, run both ways,
+// so cars never get stuck there.
+function createLanes(
+  layout: CityLayout,
+  nodes: RoadNode[],
+  pieces: RoadPiece[],
+  arms: Arm[][]
+): RoadNetwork {
+  const segments: LaneSegment[] = [];
+  const noWayOut = nodes.map(() => true);
+  pieces.forEach((piece) => {
+    noWayOut[piece.from] = false;
+    if (!layout.roads[piece.road].oneway) noWayOut[piece.to] = false;
+  });
+
+  pieces.forEach((piece) => {
+    const road = layout.roads[piece.road];
+    const oneway = road.oneway && !noWayOut[piece.to];
+    const lanes = oneway ? road.lanes : Math.max(road.lanes, 2);
+    const laneWidth = road.width / lanes;
+    const center = oneway ? 0 : Math.floor(lanes / 2);
+    const cuts = {
+      from: getArm(arms, piece, true).cut,
+      to: getArm(arms, piece, false).cut,
+    };
+
+    for (let lane = 0; lane < lanes; lane++) {
+      const offset = (lane + 0.5 - lanes / 2) * laneWidth;
+      const direction = lane >= center ? 1 : -1;
+      const line = offsetPolyline(piece.points, offset);
+      if (direction < 0) line.reverse();
+
+      const [from, to] =
+        direction > 0 ? [piece.from, piece.to] : [piece.to, piece.from];
+      const [startCut, endCut] =
+        direction > 0 ? [cuts.from, cuts.to] : [cuts.to, cuts.from];
+      const path = slicePath(line, startCut, getPathLength(line) - endCut);
+      const length = getPathLength(path);
+
+      piece.segments.push(segments.length);
+      segments.push({
+        id: segments.length,
+        from,
+        to,
+        road: piece.axis,
+        roadIndex: piece.road,
+        direction,
+        lane: offset,
+        start: path[0],
+        end: path[path.length - 1],
+        length,
+        stopLine:
+          nodes[to].intersection !== null
+            ? Math.max(0, length - crosswalkWidth - stopLineWidth / 2)
+            : null,
+        path,
+      });
+    }
+  });
+
+  const outgoing: number[][] = nodes.map(() => []);
+  segments.forEach((segment) => outgoing[segment.from].push(segment.id));
+
+  return { nodes, segments, outgoing };
+}
+
+// Function to build the sidewalks along both sides of every piece, the
+// crosswalks over each piece where it meets others, and the corners
+// between neighbouring pieces around an intersection
+function createSidewalks(
+  layout: CityLayout,
+  roadNodes: RoadNode[],
+  pieces: RoadPiece[],
+  arms: Arm[][],
+  roads: RoadNetwork
+): SidewalkNetwork {
+  const nodes: SidewalkNode[] = [];
+  const links: SidewalkLink[] = [];
+  const crosswalks: Crosswalk[] = [];
+
+  // Function to add a sidewalk node
+  const addNode = (point: Point, kind: SidewalkNode["kind"]) => {
+    nodes.push({ id: nodes.length, x: point.x, z: point.z, kind });
+    return nodes.length - 1;
+  };
+
+  // Function to add a walkway in both directions between two nodes
+  const addPath = (
+    a: number,
+    b: number,
+    piece: RoadPiece,
+    crosswalk: number | null
+  ) => {
+    [
+      [a, b],
+      [b, a],
+    ].forEach(([from, to]) => {
+      const start = { x: nodes[from].x, z: nodes[from].z };
+      const end = { x: nodes[to].x, z: nodes[to].z };
+      links.push({
+        id: links.length,
+        from,
+        to,
+        start,
+        end,
+        length: Math.hypot(end.x - start.x, end.z - start.z),
+        road: piece.axis,
+        roadIndex: piece.road,
+        crosswalk,
+      });
+    });
+  };
+
+  // Sidewalks on both sides of every piece, from the crosswalk (or the
+  // edge of the city) at one end to the other, bending with the road
+  pieces.forEach((piece) => {
+    const across = layout.roads[piece.road].width / 2 + 1;
+    const fromArm = getArm(arms, piece, true);
+    const toArm = getArm(arms, piece, false);
+
+    ([1, -1] as const).forEach((side) => {
+      const line = offsetPolyline(piece.points, across * side);
+      const length = getPathLength(line);
+      const getKerb = (arm: Arm) =>
+        roadNodes[arm.atStart ? piece.from : piece.to].kind === "edge"
+          ? 0
+          : Math.min(arm.cut + 1, length * 0.45);
+      const path = slicePath(line, getKerb(fromArm), length - getKerb(toArm));
+
+      const ids = path.map((point, index) => {
+        const end = index === 0 || index === path.length - 1;
+        const roadNode = roadNodes[index === 0 ? piece.from : piece.to];
+        return addNode(
+          point,
+          end && roadNode.kind === "edge" ? "edge" : "corner"
+        );
+      });
+      for (let i = 1; i < ids.length; i++) {
+        addPath(ids[i - 1], ids[i], piece, null);
+      }
+
+      // Right of the piece is right of the arm at its start, and left of
+      // the arm at its end, which looks back along it
+      const [first, last] = [ids[0], ids[ids.length - 1]];
+      if (side > 0) {
+        fromArm.kerbs.right = first;
+        toArm.kerbs.left = last;
+      } else {
+        fromArm.kerbs.left = first;
+        toArm.kerbs.right = last;
+      }
+    });
+  });
+
+  roadNodes.forEach((node) => {
+    if (node.kind !== "intersection") return;
+    const around = arms[node.id];
+
+    // Crosswalks over every piece, just past the ends of its lanes
+    around.forEach((arm) => {
+      const lanes = arm.piece.segments.map((id) => roads.segments[id]);
+      const crosswalk: Crosswalk = {
+        id: crosswalks.length,
+        intersection: node.intersection,
+        road: arm.piece.axis,
+        entering: lanes
+          .filter((segment) => segment.to === node.id)
+          .map((segment) => segment.id),
+        leaving: lanes
+          .filter((segment) => segment.from === node.id)
+          .map((segment) => segment.id),
+      };
+      crosswalks.push(crosswalk);
+      addPath(arm.kerbs.right, arm.kerbs.left, arm.piece, crosswalk.id);
+    });
+
+    // Round the corner from each piece to the next one around the node,
+    // where there is more than one
+    if (around.length < 2) return;
+    around.forEach((arm, index) => {
+      const next = around[(index + 1) % around.length];
+      addPath(arm.kerbs.right, next.kerbs.left, arm.piece, null);
+    });
+  });
+
+  const outgoing: number[][] = nodes.map(() => []);
+  links.forEach((link) => outgoing[link.from].push(link.id));
+
+  return { nodes, links, outgoing, crosswalks };
+}
+
+// Function to list the grid cells the pieces of each road run through, by
+// their axis, sampled every half block, and how long they are all together
+function getZonedPaths(config: CityConfig, pieces: RoadPiece[]) {
+  const paths = new Map<string, ZonedPath>();
+  const spacing = getBlockSize(config) / 2;
+
+  pieces.forEach((piece) => {
+    const key = `${piece.axis},${piece.road}`;
+    const path = paths.get(key) ?? { cells: [], share: 0 };
+    path.share += piece.length / config.gridSize;
+    for (let along = 0; along <= piece.length; along += spacing) {
+      const point = getPathPoint(piece.points, along);
+      path.cells.push([
+        getCellIndex(config, point.x),
+        getCellIndex(config, point.z),
+      ]);
+    }
+    paths.set(key, path);
+  });
+
+  return paths;
+}
@@ -0,0 +1,34 @@
+// Shared geometry of road intersections. Both the simulation (where cars
+// stop) and the render layer (where markings are drawn) read these values
+// so the stop lines cars obey are the ones the viewer sees.
+
+import { getBlockSize, type CityConfig, type RoadAxis } from "../config";
+
+export const crosswalkWidth = 3;
+export const stopLineWidth = 0.4;
+export const laneOffset = 2; // Distance of each lane from the center line
+
+// Distance from an intersection center to the middle of its crosswalks
+export function getCrosswalkOffset(config: CityConfig) {
+  return getBlockSize(config) / 2 + crosswalkWidth / 2;
+}
+
+// Distance from an intersection center to the stop lines in front of the
+// crosswalks, measured along the approaching road
+export function getStopLineOffset(config: CityConfig) {
+  return getBlockSize(config) / 2 + crosswalkWidth + stopLineWidth / 2;
+}
+
+// Lane a vehicle drives in for a direction of travel along its road.
+// Traffic keeps to the right-hand side of the road on both axes.
+export function getLaneForDirection(road: RoadAxis, direction: 1 | -1) {
+  const side = road === "horizontal" ? direction : -direction;
+  return side * laneOffset;
+}
+
+// Distance from a road's center line to the sidewalks on either side of it.
+// This falls inside the crosswalk markings, so pedestrians walking straight
+// across from one sidewalk to the other stay on the crosswalk.
+export function getSidewalkOffset(config: CityConfig) {
+  return getBlockSize(config) / 2 + 1;
+}
@@ -0,0 +1,248 @@
+import type { CityConfig } from "../config";
+import type { Random } from "../random";
+import {
+  getNextLinks,
+  type SidewalkLink,
+  type SidewalkNetwork,
+} from "./sidewalks";
+import { getWalkSignal, type IntersectionState } from "./trafficLights";
+import { getWeatherEffects, type WeatherState } from "./weather";
+import { getPopulatedRoads, getRoadPopulation, type Zoning } from "./zoning";
+
+// Plain simulation record for a pedestrian
+export interface PedestrianState {
+  id: number;
+  x: number;
+  z: number;
+  heading: number; // Rotation about the vertical axis, in radians
+  speed: number; // Walking speed, units per second
+  link: number; // Sidewalk link the pedestrian is walking along
+  distance: number; // Distance walked along the link
+  nextLink: number | null; // Link chosen for after this one
+  waiting: boolean; // Standing at the kerb for the walk signal
+  outdoors: boolean; // False while sheltering from bad weather
+  shelterRank: number; // 0-1; shelters if at or above the outdoor share
+  leaving: boolean; // Going indoors for good at the next corner
+  color: number;
+}
+
+// Everything in the city that a pedestrian reacts to
+export interface PedestrianEnvironment {
+  config: CityConfig;
+  rng: Random;
+  sidewalks: SidewalkNetwork;
+  intersections: IntersectionState[];
+  weather: WeatherState;
+}
+
+const clothingColors = [0x2244ff, 0xff4422, 0x22ff44];
+
+// Function to create pedestrians along the sidewalks of every road.
+// `share` scales the number along every road.
+export function createPedestrians(
+  config: CityConfig,
+  rng: Random,
+  sidewalks: SidewalkNetwork,
+  zoning: Zoning,
+  share = 1
+) {
+  const pedestrians: PedestrianState[] = [];
+
+  const sidewalkLinks = sidewalks.links.filter(
+    (link) => link.crosswalk === null
+  );
+  getPopulatedRoads(sidewalkLinks).forEach(({ road, roadIndex }) => {
+    const links = sidewalkLinks.filter(
+      (link) => link.road === road && link.roadIndex === roadIndex
+    );
+    const count = getRoadPopulation(
+      zoning,
+      road,
+      roadIndex,
+      config.pedestriansPerRoad * share,
+      "pedestrians"
+    );
+    for (let p = 0; p < count; p++) {
+      const link = rng.pick(links);
+      pedestrians.push(
+        placePedestrian(pedestrians.length, link, rng, sidewalks)
+      );
+    }
+  });
+
+  return pedestrians;
+}
+
+// Function to have someone step out of a building onto a random sidewalk.
+// Returns the pedestrian, or null for a city without sidewalks.
+export function spawnPedestrian(
+  pedestrians: PedestrianState[],
+  env: PedestrianEnvironment,
+  id: number
+) {
+  const links = env.sidewalks.links.filter((link) => link.crosswalk === null);
+  if (links.length === 0) return null;
+
+  const link = env.rng.pick(links);
+  const pedestrian = placePedestrian(id, link, env.rng, env.sidewalks);
+  pedestrians.push(pedestrian);
+  return pedestrian;
+}
+
+// Function to create a pedestrian somewhere along a sidewalk link
+function placePedestrian(
+  id: number,
+  link: SidewalkLink,
+  rng: Random,
+  sidewalks: SidewalkNetwork
+) {
+  const pedestrian: PedestrianState = {
+    id,
+    x: 0,
+    z: 0,
+    heading: 0,
+    speed: rng.next() * 3 + 1.2, // 1.2-4.2 units per second
+    link: link.id,
+    distance: rng.next() * link.length,
+    nextLink: null,
+    waiting: false,
+    outdoors: true,
+    shelterRank: rng.next(),
+    leaving: false,
+    color: pickClothingColor(rng),
+  };
+
+  updatePedestrianPose(pedestrian, sidewalks);
+  return pedestrian;
+}
+
+// Function to pick a clothing color
+function pickClothingColor(rng: Random) {
+  return rng.next() > 0.5
+    ? clothingColors[0]
+    : rng.next() > 0.5
+    ? clothingColors[1]
+    : clothingColors[2];
+}
+
+// Function to check whether a pedestrian may step onto a link. Crosswalks
+// at signalised intersections may only be started on the walk signal.
+function mayEnterLink(linkId: number, env: PedestrianEnvironment) {
+  const { crosswalk } = env.sidewalks.links[linkId];
+  if (crosswalk === null) return true;
+
+  const { intersection, road } = env.sidewalks.crosswalks[crosswalk];
+  if (intersection === null) return true;
+
+  return getWalkSignal(env.intersections[intersection], road) === "walk";
+}
+
+// Function to set a pedestrian's position and heading from where it is on
+// its link (pedestrian meshes face +z at heading 0)
+function updatePedestrianPose(
+  pedestrian: PedestrianState,
+  sidewalks: SidewalkNetwork
+) {
+  const { start, end, length } = sidewalks.links[pedestrian.link];
+  const t = length > 0 ? pedestrian.distance / length : 0;
+  pedestrian.x = start.x + (end.x - start.x) * t;
+  pedestrian.z = start.z + (end.z - start.z) * t;
+  pedestrian.heading = Math.atan2(end.x - start.x, end.z - start.z);
+}
+
+// Function to update pedestrian positions. Pedestrians who go indoors for
+// good or walk out of the city are taken off the list.
+export function updatePedestrians(
+  pedestrians: PedestrianState[],
+  env: PedestrianEnvironment,
+  dt: number
+) {
+  const { links, nodes } = env.sidewalks;
+  const { pedestrianShare } = getWeatherEffects(env.weather);
+  const left = new Set<PedestrianState>();
+
+  pedestrians.forEach((pedestrian) => {
+    // Sheltering pedestrians come back out where they went in, or stay in
+    // for good when leaving
+    const staysIn = pedestrian.shelterRank >= pedestrianShare;
+    if (!pedestrian.outdoors) {
+      if (pedestrian.leaving) left.add(pedestrian);
+      if (staysIn || pedestrian.leaving) return;
+      pedestrian.outdoors = true;
+    }
+
+    let step = pedestrian.speed * dt;
+
+    for (;;) {
+      const link = links[pedestrian.link];
+      if (pedestrian.distance + step < link.length) {
+        pedestrian.distance += step;
+        break;
+      }
+
+      // Reached the end of the link: decide where to walk next
+      step -= link.length - pedestrian.distance;
+      pedestrian.distance = link.length;
+
+      // Leaving pedestrians go indoors for good at the next corner, past a
+      // crosswalk or along the sidewalk. Under traffic demand, anyone
+      // reaching the edge of the city walks out of it.
+      if (
+        pedestrian.leaving ||
+        (env.config.demand && nodes[link.to].kind === "edge")
+      ) {
+        left.add(pedestrian);
+        break;
+      }
+
+      // Head indoors at the next corner when the weather is too bad
+      if (staysIn && link.crosswalk === null) {
+        pedestrian.outdoors = false;
+        break;
+      }
+      if (pedestrian.nextLink === null) {
+        pedestrian.nextLink = env.rng.pick(
+          getNextLinks(env.sidewalks, pedestrian.link)
+        );
+      }
+
+      // Wait at the kerb until the crosswalk shows walk
+      pedestrian.waiting = !mayEnterLink(pedestrian.nextLink, env);
+      if (pedestrian.waiting) break;
+
+      pedestrian.link = pedestrian.nextLink;
+      pedestrian.nextLink = null;
+      pedestrian.distance = 0;
+    }
+
+    updatePedestrianPose(pedestrian, env.sidewalks);
+  });
+
+  if (left.size > 0) {
+    pedestrians.splice(
+      0,
+      Infinity,
+      ...pedestrians.filter((pedestrian) => !left.has(pedestrian))
+    );
+  }
+}
+
+// Function to list the crosswalks that have someone walking on them
+export function getOccupiedCrosswalks(
+  pedestrians: PedestrianState[],
+  sidewalks: SidewalkNetwork
+) {
+  const occupied = new Set<number>();
+  pedestrians.forEach((pedestrian) => {
+    const { crosswalk, length } = sidewalks.links[pedestrian.link];
+    // Someone waiting at the far kerb has already crossed
+    if (
+      crosswalk !== null &&
+      pedestrian.outdoors &&
+      pedestrian.distance < length
+    ) {
+      occupied.add(crosswalk);
+    }
+  });
+  return occupied;
+}
@@ -0,0 +1,216 @@
+// Road layout of the grid city. Roads run along road lines: without a road
+// map, the rows and columns picked by `roadSpacing` and `roadOffset`; with
+// one, any row or column it paves. Each line is cut into stretches where
+// it crosses the other road lines at a paved cell. A stretch carries road
+// only if all of its cells are paved, so roads only ever meet at crossings.
+// The road network, signals, sidewalks and road meshes are all built from
+// these stretches.
+
+import {
+  isCrossing,
+  isRoadCell,
+  isRoadLine,
+  type CityConfig,
+  type RoadAxis,
+} from "../config";
+
+// A stretch of a road line between two neighbouring crossings, or between a
+// crossing and the edge of the city
+export interface RoadStretch {
+  axis: RoadAxis;
+  index: number; // Grid row (horizontal) or column (vertical) of the line
+  from: number | null; // Crossing line at the low end, or null at the edge
+  to: number | null; // Crossing line at the high end, or null at the edge
+}
+
+// Function to list the grid rows (horizontal) or columns (vertical) that
+// carry a road line
+export function getRoadLines(config: CityConfig, axis: RoadAxis) {
+  const lines: number[] = [];
+  for (let i = 0; i < config.gridDivisions; i++) {
+    if (isRoadLine(config, axis, i)) lines.push(i);
+  }
+  return lines;
+}
+
+// Function to list the road lines of the other axis that cross a road line
+export function getLineCrossings(
+  config: CityConfig,
+  axis: RoadAxis,
+  index: number
+) {
+  return axis === "horizontal"
+    ? getRoadLines(config, "vertical").filter((column) =>
+        isCrossing(config, column, index)
+      )
+    : getRoadLines(config, "horizontal").filter((row) =>
+        isCrossing(config, index, row)
+      );
+}
+
+// Function to list the stretches of one road line, from the low end up
+export function getLineStretches(
+  config: CityConfig,
+  axis: RoadAxis,
+  index: number
+): RoadStretch[] {
+  const stops = [null, ...getLineCrossings(config, axis, index), null];
+  return stops.slice(1).map((to, k) => ({ axis, index, from: stops[k], to }));
+}
+
+// Function to list the grid cells of a stretch as [column, row] pairs,
+// including the crossings at its ends
+export function getStretchCells(config: CityConfig, stretch: RoadStretch) {
+  const low = stretch.from ?? 0;
+  const high = stretch.to ?? config.gridDivisions - 1;
+  const cells: [number, number][] = [];
+  for (let k = low; k <= high; k++) {
+    cells.push(
+      stretch.axis === "horizontal" ? [k, stretch.index] : [stretch.index, k]
+    );
+  }
+  return cells;
+}
+
+// Whether a stretch carries road: every one of its cells is paved
+export function isStretchOpen(config: CityConfig, stretch: RoadStretch) {
+  return getStretchCells(config, stretch).every(([column, row]) =>
+    isRoadCell(config, column, row)
+  );
+}
+
+// Function to get the stretch that leaves a crossing along one axis, on the
+// low (-1) or high (1) side
+export function getArm(
+  config: CityConfig,
+  axis: RoadAxis,
+  column: number,
+  row: number,
+  side: 1 | -1
+) {
+  const index = axis === "horizontal" ? row : column;
+  const along = axis === "horizontal" ? column : row;
+  return getLineStretches(config, axis, index).find((stretch) =>
+    side > 0 ? stretch.from === along : stretch.to === along
+  )!;
+}
+
+// Function to count the open stretches that meet at a crossing, or 0 for
+// cells that are not crossings
+export function countOpenArms(config: CityConfig, column: number, row: number) {
+  if (!isCrossing(config, column, row)) return 0;
+  let arms = 0;
+  (["horizontal", "vertical"] as const).forEach((axis) => {
+    ([1, -1] as const).forEach((side) => {
+      if (isStretchOpen(config, getArm(config, axis, column, row, side))) {
+        arms++;
+      }
+    });
+  });
+  return arms;
+}
+
+// Whether a crossing is controlled by signals. Three or four roads meeting
+// need them; corners, dead ends and straight runs do not.
+export function isSignalised(config: CityConfig, column: number, row: number) {
+  return countOpenArms(config, column, row) >= 3;
+}
+
+// Function to get the config's road map, or the map of the road lines it
+// stands for
+export function getRoadMap(config: CityConfig) {
+  const { gridDivisions } = config;
+  const map: boolean[][] = [];
+  for (let row = 0; row < gridDivisions; row++) {
+    const cells: boolean[] = [];
+    for (let column = 0; column < gridDivisions; column++) {
+      cells.push(isRoadCell(config, column, row));
+    }
+    map.push(cells);
+  }
+  return map;
+}
+
+// Function to pave a road along a line from one cell to another,
+// returning the new road map. Roads only end at crossings and the edge of
+// the city, so the road is carried on to the nearest ones past its ends.
+export function paveLine(
+  config: CityConfig,
+  axis: RoadAxis,
+  index: number,
+  from: number,
+  to: number
+) {
+  const map = getRoadMap(config);
+  const low = Math.min(from, to);
+  const high = Math.max(from, to);
+  const pave = (stretch: RoadStretch) =>
+    getStretchCells(config, stretch).forEach(([column, row]) => {
+      map[row][column] = true;
+    });
+
+  pave({ axis, index, from: low, to: high });
+  const paved = { ...config, roadMap: map };
+  getLineStretches(paved, axis, index).forEach((stretch) => {
+    const start = stretch.from ?? 0;
+    const end = stretch.to ?? config.gridDivisions - 1;
+    if (Math.max(start, low) < Math.min(end, high)) pave(stretch);
+  });
+
+  return map;
+}
+
+// Function to clear an open stretch, returning the new road map. The
+// crossings at its ends stay paved while other roads still run through
+// them.
+export function clearStretch(config: CityConfig, stretch: RoadStretch) {
+  const map = getRoadMap(config);
+  const cells = getStretchCells(config, stretch);
+  const ends: [number, number][] = [];
+
+  cells.forEach(([column, row], k) => {
+    const crossing =
+      (k === 0 && stretch.from !== null) ||
+      (k === cells.length - 1 && stretch.to !== null);
+    if (crossing) {
+      ends.push([column, row]);
+    } else {
+      map[row][column] = false;
+    }
+  });
+
+  // Clear crossings that no open stretch runs through any more
+  const cleared = { ...config, roadMap: map };
+  ends.forEach(([column, row]) => {
+    if (!getStretchAt(cleared, column, row, true)) map[row][column] = false;
+  });
+
+  return map;
+}
+
+// Function to get the open stretch that runs through a cell, or null for
+// cells off the roads. Crossings, where several stretches meet, only count
+// with `crossings`, which finds any one of them.
+export function getStretchAt(
+  config: CityConfig,
+  column: number,
+  row: number,
+  crossings = false
+) {
+  if (!crossings && isCrossing(config, column, row)) return null;
+
+  for (const axis of ["horizontal", "vertical"] as const) {
+    const index = axis === "horizontal" ? row : column;
+    const along = axis === "horizontal" ? column : row;
+    if (!isRoadLine(config, axis, index)) continue;
+
+    const stretch = getLineStretches(config, axis, index).find(
+      (stretch) =>
+        (stretch.from ?? 0) <= along &&
+        along <= (stretch.to ?? config.gridDivisions - 1) &&
+        isStretchOpen(config, stretch)
+    );
+    if (stretch) return stretch;
+  }
+  return null;
+}
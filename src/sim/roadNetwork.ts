@@ -0,0 +1,443 @@
+// Road network graph built from the grid roads. Nodes are intersections and
+// the points where roads leave the city; lane segments are the directed
+// lanes between neighbouring nodes. Cars plan routes over the segments and
+// follow curved turn paths through intersections. Intersections are any
+// crossings that open road stretches reach, so they include corners and
+// dead ends, where cars turn back. Imported layouts build the same graph
+// from their own roads (see importedRoads.ts).
+
+import {
+  getBlockSize,
+  getCellCenter,
+  type CityConfig,
+  type RoadAxis,
+} from "../config";
+import {
+  crosswalkWidth,
+  getLaneForDirection,
+  laneOffset,
+  stopLineWidth,
+} from "./intersections";
+import {
+  countOpenArms,
+  getLineStretches,
+  getRoadLines,
+  isStretchOpen,
+} from "./roadLayout";
+import type { IntersectionState } from "./trafficLights";
+
+export interface Point {
+  x: number;
+  z: number;
+}
+
+export interface RoadNode extends Point {
+  id: number;
+  kind: "intersection" | "edge";
+  intersection: number | null; // Id of the signal controller, if any
+}
+
+// One directed lane between two neighbouring nodes. Its lane path runs from
+// where the lane leaves the `from` intersection to where it enters `to`:
+// straight from `start` to `end` on the grid, or along `path` on the
+// curving roads of an imported layout.
+export interface LaneSegment {
+  id: number;
+  from: number;
+  to: number;
+  road: RoadAxis;
+  roadIndex: number;
+  direction: 1 | -1;
+  lane: number; // Offset of the lane from the road center line
+  start: Point;
+  end: Point;
+  length: number;
+  stopLine: number | null; // Distance along the lane of the stop line at `to`
+  path: Point[] | null; // Points of a lane that bends, from start to end
+}
+
+// Curved path through an intersection from one lane segment to the next
+export interface TurnPath {
+  from: number;
+  to: number;
+  start: Point;
+  control: Point;
+  end: Point;
+  length: number;
+}
+
+export interface RoadNetwork {
+  nodes: RoadNode[];
+  segments: LaneSegment[];
+  outgoing: number[][]; // Segment ids leaving each node
+}
+
+// Function to build the road network for the grid roads of a city
+export function createRoadNetwork(
+  config: CityConfig,
+  intersections: IntersectionState[]
+): RoadNetwork {
+  const { gridSize } = config;
+  const halfBox = getBlockSize(config) / 2;
+  const nodes: RoadNode[] = [];
+  const segments: LaneSegment[] = [];
+  const intersectionNodes = new Map<string, number>();
+
+  // Intersection nodes, shared by the horizontal and vertical road, at
+  // every crossing an open stretch reaches
+  getRoadLines(config, "vertical").forEach((column) => {
+    getRoadLines(config, "horizontal").forEach((row) => {
+      if (countOpenArms(config, column, row) === 0) return;
+      const controller = intersections.find(
+        (intersection) =>
+          intersection.column === column && intersection.row === row
+      );
+      intersectionNodes.set(`${column},${row}`, nodes.length);
+      nodes.push({
+        id: nodes.length,
+        x: getCellCenter(config, column),
+        z: getCellCenter(config, row),
+        kind: "intersection",
+        intersection: controller ? controller.id : null,
+      });
+    });
+  });
+
+  // Function to add a node where a road leaves the city
+  const addEdgeNode = (point: Point) => {
+    nodes.push({
+      id: nodes.length,
+      ...point,
+      kind: "edge",
+      intersection: null,
+    });
+    return nodes.length - 1;
+  };
+
+  (["horizontal", "vertical"] as const).forEach((road) => {
+    getRoadLines(config, road).forEach((roadIndex) => {
+      const roadCenter = getCellCenter(config, roadIndex);
+      const toPoint = (along: number, across: number): Point =>
+        road === "horizontal"
+          ? { x: along, z: across }
+          : { x: across, z: along };
+
+      // Function to get the node at one end of a stretch: an edge node
+      // where it leaves the city, or the intersection at a crossing
+      const getStop = (crossIndex: number | null, edge: number) => {
+        if (crossIndex === null) {
+          return addEdgeNode(toPoint(edge, roadCenter));
+        }
+        return intersectionNodes.get(
+          road === "horizontal"
+            ? `${crossIndex},${roadIndex}`
+            : `${roadIndex},${crossIndex}`
+        )!;
+      };
+
+      const alongOf = (node: RoadNode) =>
+        road === "horizontal" ? node.x : node.z;
+      const boxOf = (node: RoadNode) =>
+        node.kind === "intersection" ? halfBox : 0;
+
+      getLineStretches(config, road, roadIndex).forEach((stretch) => {
+        if (!isStretchOpen(config, stretch)) return;
+
+        // Nodes at both ends, in increasing coordinate order
+        const low = getStop(stretch.from, -gridSize / 2);
+        const high = getStop(stretch.to, gridSize / 2);
+
+        ([1, -1] as const).forEach((direction) => {
+          const from = nodes[direction > 0 ? low : high];
+          const to = nodes[direction > 0 ? high : low];
+          const lane = getLaneForDirection(road, direction);
+          const startAlong = alongOf(from) + direction * boxOf(from);
+          const endAlong = alongOf(to) - direction * boxOf(to);
+          const length = Math.abs(endAlong - startAlong);
+
+          segments.push({
+            id: segments.length,
+            from: from.id,
+            to: to.id,
+            road,
+            roadIndex,
+            direction,
+            lane,
+            start: toPoint(startAlong, roadCenter + lane),
+            end: toPoint(endAlong, roadCenter + lane),
+            length,
+            stopLine:
+              to.intersection !== null
+                ? length - crosswalkWidth - stopLineWidth / 2
+                : null,
+            path: null,
+          });
+        });
+      });
+    });
+  });
+
+  const outgoing: number[][] = nodes.map(() => []);
+  segments.forEach((segment) => outgoing[segment.from].push(segment.id));
+
+  return { nodes, segments, outgoing };
+}
+
+// Function to list the segments a car can continue onto from a segment.
+// At an intersection that is every outgoing lane except a U-turn; at the
+// city edge the car re-enters on the same road from the opposite edge.
+// Where the road ends, cars turn back.
+export function getNextSegments(network: RoadNetwork, segmentId: number) {
+  const segment = network.segments[segmentId];
+  const node = network.nodes[segment.to];
+
+  if (node.kind === "edge") {
+    const reentry = network.segments.find(
+      (other) =>
+        other.road === segment.road &&
+        other.roadIndex === segment.roadIndex &&
+        other.direction === segment.direction &&
+        network.nodes[other.from].kind === "edge"
+    );
+    if (reentry) return [reentry.id];
+  }
+
+  const options = network.outgoing[node.id];
+  const onward = options.filter(
+    (id) => network.segments[id].to !== segment.from
+  );
+  return onward.length > 0 ? onward : options;
+}
+
+// Whether a car moves from one segment to the next by re-entering the city
+// at the opposite edge, rather than by driving through a turn
+export function isReentry(network: RoadNetwork, from: number, to: number) {
+  const { segments, nodes } = network;
+  return (
+    nodes[segments[from].to].kind === "edge" &&
+    segments[to].from !== segments[from].to
+  );
+}
+
+// Function to list the lane segments that come into the city from its edge
+export function getEntrySegments(network: RoadNetwork) {
+  return network.segments.filter(
+    (segment) => network.nodes[segment.from].kind === "edge"
+  );
+}
+
+// Function to list the lane segments that lead out of the city at its edge
+export function getExitSegments(network: RoadNetwork) {
+  return network.segments.filter(
+    (segment) => network.nodes[segment.to].kind === "edge"
+  );
+}
+
+// Function to find the shortest route (as segment ids, starting with `from`
+// and ending with `to`) using Dijkstra's algorithm over lane segments
+export function findRoute(network: RoadNetwork, from: number, to: number) {
+  const cost = new Map<number, number>([[from, 0]]);
+  const previous = new Map<number, number>();
+  const open = [from];
+  const closed = new Set<number>();
+
+  while (open.length > 0) {
+    // Take the cheapest open segment
+    let best = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (cost.get(open[i])! < cost.get(open[best])!) best = i;
+    }
+    const current = open.splice(best, 1)[0];
+    if (current === to) break;
+    closed.add(current);
+
+    getNextSegments(network, current).forEach((next) => {
+      if (closed.has(next)) return;
+      const nextCost = cost.get(current)! + network.segments[next].length;
+      if (!cost.has(next)) {
+        open.push(next);
+      } else if (nextCost >= cost.get(next)!) {
+        return;
+      }
+      cost.set(next, nextCost);
+      previous.set(next, current);
+    });
+  }
+
+  if (!cost.has(to)) return null;
+
+  const route = [to];
+  while (route[0] !== from) {
+    route.unshift(previous.get(route[0])!);
+  }
+  return route;
+}
+
+// Function to build the curved path through an intersection between two
+// segments. The control point is where the two lanes' center lines cross,
+// so straight-ahead paths stay straight and turns follow a smooth arc.
+export function getTurnPath(
+  network: RoadNetwork,
+  from: number,
+  to: number
+): TurnPath {
+  const incoming = network.segments[from];
+  const outgoing = network.segments[to];
+  const start = incoming.end;
+  const end = outgoing.start;
+
+  let control =
+    incoming.path || outgoing.path
+      ? getLaneCrossing(incoming, outgoing)
+      : incoming.road === outgoing.road
+      ? { x: (start.x + end.x) / 2, z: (start.z + end.z) / 2 }
+      : incoming.road === "horizontal"
+      ? { x: end.x, z: start.z }
+      : { x: start.x, z: end.z };
+
+  // Turning back where the road ends: loop out ahead, to the node or at
+  // least one lane width further, and round onto the opposite lane
+  if (incoming.road === outgoing.road && outgoing.to === incoming.from) {
+    const node = network.nodes[incoming.to];
+    const forward = getLaneDirection(incoming, "end");
+    const reach = Math.max(
+      (node.x - start.x) * forward.x + (node.z - start.z) * forward.z,
+      laneOffset * 2
+    );
+    control = {
+      x: control.x + forward.x * reach,
+      z: control.z + forward.z * reach,
+    };
+  }
+
+  // Approximate the curve length by sampling it
+  let length = 0;
+  let last = start;
+  for (let i = 1; i <= 16; i++) {
+    const point = getCurvePoint(start, control, end, i / 16);
+    length += Math.hypot(point.x - last.x, point.z - last.z);
+    last = point;
+  }
+
+  return { from, to, start, control, end, length };
+}
+
+// Function to get the unit direction of travel at the start or end of a
+// lane segment
+function getLaneDirection(segment: LaneSegment, at: "start" | "end") {
+  let from = segment.start;
+  let to = segment.end;
+  let length = segment.length;
+  if (segment.path) {
+    const last = segment.path.length - 1;
+    [from, to] =
+      at === "start"
+        ? [segment.path[0], segment.path[1]]
+        : [segment.path[last - 1], segment.path[last]];
+    length = Math.hypot(to.x - from.x, to.z - from.z);
+  }
+  return { x: (to.x - from.x) / length, z: (to.z - from.z) / length };
+}
+
+// Function to get the control point of a turn between lanes that need not
+// follow the grid: where the two lanes, carried on straight, would cross.
+// Lanes that (nearly) line up, or only cross behind the car, get a
+// straight path between them.
+function getLaneCrossing(incoming: LaneSegment, outgoing: LaneSegment) {
+  const start = incoming.end;
+  const end = outgoing.start;
+  const middle = { x: (start.x + end.x) / 2, z: (start.z + end.z) / 2 };
+  const across = Math.hypot(end.x - start.x, end.z - start.z);
+  const a = getLaneDirection(incoming, "end");
+  const b = getLaneDirection(outgoing, "start");
+
+  const cross = a.x * b.z - a.z * b.x;
+  if (Math.abs(cross) < 0.1) return middle;
+  const ahead = ((end.x - start.x) * b.z - (end.z - start.z) * b.x) / cross;
+  if (ahead <= 0 || ahead > across * 2) return middle;
+  return { x: start.x + a.x * ahead, z: start.z + a.z * ahead };
+}
+
+// Function to get the length of a polyline
+export function getPathLength(points: Point[]) {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(
+      points[i].x - points[i - 1].x,
+      points[i].z - points[i - 1].z
+    );
+  }
+  return length;
+}
+
+// Function to get the point a distance along a polyline, with the
+// direction of the stretch it lies on. Distances past either end give the
+// end point.
+export function getPathPoint(points: Point[], distance: number) {
+  let left = Math.max(0, distance);
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    const length = Math.hypot(dx, dz);
+    if (left <= length || i === points.length - 1) {
+      const t = length > 0 ? Math.min(1, left / length) : 0;
+      return { x: from.x + dx * t, z: from.z + dz * t, dx, dz };
+    }
+    left -= length;
+  }
+  return { ...points[0], dx: 0, dz: 0 };
+}
+
+// Function to cut the part of a polyline between two distances along it
+export function slicePath(points: Point[], from: number, to: number) {
+  const pointAt = (distance: number): Point => {
+    const { x, z } = getPathPoint(points, distance);
+    return { x, z };
+  };
+
+  const sliced = [pointAt(from)];
+  let along = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    along += Math.hypot(
+      points[i].x - points[i - 1].x,
+      points[i].z - points[i - 1].z
+    );
+    if (along > from && along < to) sliced.push({ ...points[i] });
+  }
+  sliced.push(pointAt(to));
+  return sliced;
+}
+
+// Function to evaluate a quadratic Bezier curve
+export function getCurvePoint(
+  start: Point,
+  control: Point,
+  end: Point,
+  t: number
+): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * start.x + 2 * u * t * control.x + t * t * end.x,
+    z: u * u * start.z + 2 * u * t * control.z + t * t * end.z,
+  };
+}
+
+// Function to get the direction of a quadratic Bezier curve as a heading
+export function getCurveHeading(
+  start: Point,
+  control: Point,
+  end: Point,
+  t: number
+) {
+  const dx = 2 * (1 - t) * (control.x - start.x) + 2 * t * (end.x - control.x);
+  const dz = 2 * (1 - t) * (control.z - start.z) + 2 * t * (end.z - control.z);
+  return getHeadingFromDirection(dx, dz);
+}
+
+// Function to turn a direction of travel into a rotation about the
+// vertical axis (meshes face +x at heading 0)
+export function getHeadingFromDirection(dx: number, dz: number) {
+  return Math.atan2(-dz, dx);
+}
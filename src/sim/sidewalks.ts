@@ -0,0 +1,202 @@
+// Sidewalk network for pedestrians. Sidewalks run along both sides of every
+// road and meet at the corners of each intersection, where crosswalks link
+// the corners across the roads. Where an intersection has no road on one
+// side, the sidewalk carries on around it. Each crosswalk knows which lane segments it
+// cuts across, so cars can yield to the people walking on it.
+
+import { getCellIndex, type CityConfig, type RoadAxis } from "../config";
+import { getSidewalkOffset } from "./intersections";
+import type { Point, RoadNetwork, RoadNode } from "./roadNetwork";
+
+export interface SidewalkNode extends Point {
+  id: number;
+  kind: "corner" | "edge";
+}
+
+// One directed stretch of walkway between two sidewalk nodes
+export interface SidewalkLink {
+  id: number;
+  from: number;
+  to: number;
+  start: Point;
+  end: Point;
+  length: number;
+  road: RoadAxis; // Road the link runs along, or crosses
+  roadIndex: number;
+  crosswalk: number | null; // Id of the crosswalk, if the link crosses a road
+}
+
+// Crosswalk over one arm of an intersection
+export interface Crosswalk {
+  id: number;
+  intersection: number | null; // Id of the signal controller, if any
+  road: RoadAxis; // Road being crossed
+  entering: number[]; // Lane segments whose end it cuts across
+  leaving: number[]; // Lane segments whose start it cuts across
+}
+
+export interface SidewalkNetwork {
+  nodes: SidewalkNode[];
+  links: SidewalkLink[];
+  outgoing: number[][]; // Link ids leaving each node
+  crosswalks: Crosswalk[];
+}
+
+// Function to build the sidewalks and crosswalks alongside a road network
+export function createSidewalkNetwork(
+  config: CityConfig,
+  roads: RoadNetwork
+): SidewalkNetwork {
+  const offset = getSidewalkOffset(config);
+  const nodes: SidewalkNode[] = [];
+  const links: SidewalkLink[] = [];
+  const crosswalks: Crosswalk[] = [];
+  const corners = new Map<string, number>();
+
+  // Function to add a sidewalk node
+  const addNode = (point: Point, kind: SidewalkNode["kind"]) => {
+    nodes.push({ id: nodes.length, ...point, kind });
+    return nodes.length - 1;
+  };
+
+  // Function to get the corner of an intersection on the given sides
+  const getCorner = (node: RoadNode, sideX: 1 | -1, sideZ: 1 | -1) =>
+    corners.get(`${node.id},${sideX},${sideZ}`)!;
+
+  // Function to add a walkway in both directions between two nodes
+  const addPath = (
+    a: number,
+    b: number,
+    road: RoadAxis,
+    roadIndex: number,
+    crosswalk: number | null
+  ) => {
+    [
+      [a, b],
+      [b, a],
+    ].forEach(([from, to]) => {
+      const start = { x: nodes[from].x, z: nodes[from].z };
+      const end = { x: nodes[to].x, z: nodes[to].z };
+      links.push({
+        id: links.length,
+        from,
+        to,
+        start,
+        end,
+        length: Math.hypot(end.x - start.x, end.z - start.z),
+        road,
+        roadIndex,
+        crosswalk,
+      });
+    });
+  };
+
+  const intersections = roads.nodes.filter(
+    (node) => node.kind === "intersection"
+  );
+
+  // Four corners around every intersection
+  intersections.forEach((node) => {
+    ([1, -1] as const).forEach((sideX) => {
+      ([1, -1] as const).forEach((sideZ) => {
+        corners.set(
+          `${node.id},${sideX},${sideZ}`,
+          addNode(
+            { x: node.x + sideX * offset, z: node.z + sideZ * offset },
+            "corner"
+          )
+        );
+      });
+    });
+  });
+
+  // Crosswalks over each arm of every intersection
+  intersections.forEach((node) => {
+    (["horizontal", "vertical"] as const).forEach((road) => {
+      ([1, -1] as const).forEach((arm) => {
+        const leaving = roads.segments.find(
+          (segment) =>
+            segment.from === node.id &&
+            segment.road === road &&
+            segment.direction === arm
+        );
+        const entering = roads.segments.find(
+          (segment) =>
+            segment.to === node.id &&
+            segment.road === road &&
+            segment.direction === -arm
+        );
+        // Across the road, from the corner on one side to the other
+        const [a, b] =
+          road === "horizontal"
+            ? [getCorner(node, arm, -1), getCorner(node, arm, 1)]
+            : [getCorner(node, -1, arm), getCorner(node, 1, arm)];
+
+        if (!leaving && !entering) {
+          // No road on this side: walk straight past it
+          const roadIndex = getCellIndex(
+            config,
+            road === "horizontal" ? node.z : node.x
+          );
+          addPath(a, b, road, roadIndex, null);
+          return;
+        }
+
+        const crosswalk: Crosswalk = {
+          id: crosswalks.length,
+          intersection: node.intersection,
+          road,
+          entering: entering ? [entering.id] : [],
+          leaving: leaving ? [leaving.id] : [],
+        };
+        crosswalks.push(crosswalk);
+        addPath(a, b, road, (leaving ?? entering)!.roadIndex, crosswalk.id);
+      });
+    });
+  });
+
+  // Sidewalks on both sides of every stretch of road between two nodes
+  roads.segments.forEach((segment) => {
+    if (segment.direction !== 1) return; // One per stretch of road
+
+    const { road } = segment;
+    ([1, -1] as const).forEach((side) => {
+      // Function to get the sidewalk node at one end of the stretch
+      const getEnd = (node: RoadNode, towards: 1 | -1) => {
+        if (node.kind === "intersection") {
+          return road === "horizontal"
+            ? getCorner(node, towards, side)
+            : getCorner(node, side, towards);
+        }
+        return addNode(
+          road === "horizontal"
+            ? { x: node.x, z: node.z + side * offset }
+            : { x: node.x + side * offset, z: node.z },
+          "edge"
+        );
+      };
+
+      addPath(
+        getEnd(roads.nodes[segment.from], 1),
+        getEnd(roads.nodes[segment.to], -1),
+        road,
+        segment.roadIndex,
+        null
+      );
+    });
+  });
+
+  const outgoing: number[][] = nodes.map(() => []);
+  links.forEach((link) => outgoing[link.from].push(link.id));
+
+  return { nodes, links, outgoing, crosswalks };
+}
+
+// Function to list the links a pedestrian can walk onto at the end of a
+// link. People only turn back where the sidewalk ends.
+export function getNextLinks(network: SidewalkNetwork, linkId: number) {
+  const link = network.links[linkId];
+  const options = network.outgoing[link.to];
+  const onward = options.filter((id) => network.links[id].to !== link.from);
+  return onward.length > 0 ? onward : options;
+}
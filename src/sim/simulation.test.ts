@@ -0,0 +1,211 @@
+// Checks of the headless simulation, run in Node with `npm test`. They step
+// whole cities rather than single functions, so anything that changes how
+// a city runs shows up here: the same seed always has to give the same
+// city, and a restored snapshot has to carry on exactly as if the run had
+// never stopped.
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import snapshotV1 from "./fixtures/snapshot-v1.json?raw";
+import snapshotV1After from "./fixtures/snapshot-v1-after.json?raw";
+import { rushHourDemand } from "../config";
+import { importGeoJson } from "../geojson";
+import { createChunkSimulation, stepChunkSimulation } from "./chunks";
+import { getDemandTargets } from "./demand";
+import {
+  createSimulation,
+  runSimulation,
+  type CitySimulation,
+} from "./simulation";
+import {
+  createSimulationFromSnapshot,
+  createSnapshot,
+  parseSnapshot,
+  restoreChunkSnapshot,
+  serializeSnapshot,
+  type ChunkSimulation,
+} from "./snapshot";
+
+// Function to run a city with chunks around it, the way the browser does
+function runWithChunks(
+  sim: CitySimulation,
+  chunks: ChunkSimulation[],
+  ticks: number
+) {
+  for (let tick = 0; tick < ticks; tick++) {
+    runSimulation(sim, 1);
+    chunks.forEach((chunk) =>
+      stepChunkSimulation(chunk.sim, sim.clock.fixedStep)
+    );
+  }
+}
+
+test("the same seed gives the same city", () => {
+  const first = runSimulation(createSimulation({ seed: 42 }), 3000);
+  const second = runSimulation(createSimulation({ seed: 42 }), 3000);
+  assert.deepEqual(createSnapshot(second), createSnapshot(first));
+
+  const other = runSimulation(createSimulation({ seed: 43 }), 3000);
+  assert.notDeepEqual(other.cars, first.cars);
+});
+
+test("a restored snapshot carries on like an uninterrupted run", () => {
+  // With demand, so traffic comes and goes on both sides of the snapshot
+  const options = { seed: 7, config: { demand: rushHourDemand } };
+  const uninterrupted = runSimulation(createSimulation(options), 3600);
+
+  const saved = serializeSnapshot(
+    runSimulation(createSimulation(options), 1800)
+  );
+  const restored = runSimulation(
+    createSimulationFromSnapshot(parseSnapshot(saved)),
+    1800
+  );
+
+  assert.deepEqual(createSnapshot(restored), createSnapshot(uninterrupted));
+});
+
+test("chunks saved with their city carry on like an uninterrupted run", () => {
+  const sim = runSimulation(createSimulation({ seed: 11 }), 600);
+  const chunks = [
+    { x: 1, z: 0 },
+    { x: -1, z: 1 },
+  ].map((coord) => ({ coord, sim: createChunkSimulation(sim, coord) }));
+  runWithChunks(sim, chunks, 1200);
+
+  const saved = parseSnapshot(serializeSnapshot(sim, chunks));
+  const restored = createSimulationFromSnapshot(saved);
+  const restoredChunks = saved.chunks.map((chunkSnapshot) => {
+    const coord = { x: chunkSnapshot.x, z: chunkSnapshot.z };
+    const chunk = { coord, sim: createChunkSimulation(restored, coord) };
+    restoreChunkSnapshot(chunk, chunkSnapshot);
+    return chunk;
+  });
+
+  runWithChunks(sim, chunks, 1200);
+  runWithChunks(restored, restoredChunks, 1200);
+  assert.deepEqual(
+    createSnapshot(restored, restoredChunks),
+    createSnapshot(sim, chunks)
+  );
+});
+
+test("cars and pedestrians use the roads of an imported layout", () => {
+  // A crossing, a T junction off one of its roads and a one-way street
+  // into a dead end, all meeting at shared vertices (about 65 m apart)
+  const road = (coordinates: number[][], properties = {}) => ({
+    type: "Feature",
+    properties,
+    geometry: { type: "LineString", coordinates },
+  });
+  const layout = importGeoJson(
+    JSON.stringify({
+      type: "FeatureCollection",
+      features: [
+        road([
+          [-0.0012, 0],
+          [-0.0006, 0],
+          [0, 0],
+          [0.0012, 0],
+        ]),
+        road([
+          [0, -0.0012],
+          [0, 0],
+          [0.0003, 0.0012],
+        ]),
+        road(
+          [
+            [-0.0006, 0],
+            [-0.0006, -0.0006],
+          ],
+          { oneway: "yes", lanes: 1 }
+        ),
+      ],
+    })
+  );
+  const options = { seed: 3, config: { gridSize: layout.size }, layout };
+  const sim = createSimulation(options);
+
+  // Both ends of the crossing roads lead out of the city, the crossing and
+  // the T junction get signals, and the dead end takes cars both ways
+  const { nodes, segments } = sim.network;
+  assert.equal(nodes.filter((node) => node.kind === "edge").length, 4);
+  assert.equal(sim.intersections.length, 2);
+  assert.equal(segments.length, 12);
+  assert.ok(segments.every((segment) => segment.path !== null));
+  assert.ok(sim.cars.length > 0 && sim.pedestrians.length > 0);
+
+  const visited = new Set(sim.cars.map((car) => car.segment));
+  for (let minute = 0; minute < 10; minute++) {
+    runSimulation(sim, 600);
+    sim.cars.forEach((car) => visited.add(car.segment));
+  }
+  assert.ok(visited.size > segments.length / 2, `${visited.size} lanes`);
+  sim.cars.forEach((car) => {
+    assert.ok(Math.hypot(car.x, car.z) < layout.size, `car ${car.id}`);
+  });
+
+  // Its snapshots carry on like the others, on the same layout
+  const restored = runSimulation(
+    createSimulationFromSnapshot(parseSnapshot(serializeSnapshot(sim)), layout),
+    600
+  );
+  runSimulation(sim, 600);
+  assert.deepEqual(createSnapshot(restored), createSnapshot(sim));
+});
+
+test("traffic follows the demand curves through the day", () => {
+  // Ten seconds of simulated time to every hour
+  const sim = createSimulation({
+    seed: 5,
+    config: { demand: rushHourDemand, dayDuration: 240 },
+  });
+
+  for (let hour = 1; hour <= 24; hour++) {
+    runSimulation(sim, 600);
+    const targets = getDemandTargets(sim, hour % 24)!;
+
+    // Nobody stays when there are too many, and newcomers catch up with
+    // the demand within the hour
+    (["cars", "pedestrians"] as const).forEach((key) => {
+      const staying = sim[key].filter((agent) => !agent.leaving).length;
+      assert.ok(staying <= targets[key], `${key} at ${hour}:00`);
+      assert.ok(staying >= targets[key] * 0.75 - 1, `${key} at ${hour}:00`);
+    });
+  }
+});
+
+test("a version 1 snapshot runs on as it did before traffic demand", () => {
+  // The fixture was saved by the last version 1 build at seed 42, and the
+  // expected state is what that build reached 3000 steps later
+  const sim = runSimulation(
+    createSimulationFromSnapshot(parseSnapshot(snapshotV1)),
+    3000
+  );
+  const expected = JSON.parse(snapshotV1After);
+
+  // Compared as JSON, the way the expected state was written
+  const { cars, pedestrians, trafficLights } = sim;
+  const state = JSON.parse(
+    JSON.stringify({ time: sim.clock.time, cars, pedestrians, trafficLights })
+  );
+  const withoutLeaving = <T extends { leaving: boolean }>(agents: T[]) =>
+    agents.map(({ leaving, ...agent }) => {
+      assert.equal(leaving, false);
+      return agent;
+    });
+
+  assert.equal(sim.config.demand, null);
+  assert.equal(state.time, expected.time);
+  assert.deepEqual(withoutLeaving(state.cars), expected.cars);
+  assert.deepEqual(withoutLeaving(state.pedestrians), expected.pedestrians);
+  assert.deepEqual(state.trafficLights, expected.trafficLights);
+});
+
+test("snapshots of another version are refused", () => {
+  const saved = JSON.parse(serializeSnapshot(createSimulation({ seed: 1 })));
+  assert.throws(
+    () => parseSnapshot(JSON.stringify({ ...saved, version: 99 })),
+    /version 99 is not supported/
+  );
+});
@@ -0,0 +1,179 @@
+// Headless city simulation. Everything in here is plain data and has no
+// dependency on three.js or the DOM, so the city can be stepped in Node
+// (tests, CI) as well as in the browser, where the render layer syncs
+// meshes from this state every frame.
+
+import { createCityConfig, type CityConfig } from "../config";
+import { createSimulationClock, type SimulationClock } from "../clock";
+import type { CityLayout } from "../geojson";
+import { createRandom, deriveSeed, type Random } from "../random";
+import { createCars, updateCars, type CarState } from "./cars";
+import {
+  getDemandShare,
+  getFullTraffic,
+  updateDemand,
+  type AgentIds,
+  type TrafficCount,
+} from "./demand";
+import { createImportedRoads } from "./importedRoads";
+import { createRoadNetwork, type RoadNetwork } from "./roadNetwork";
+import { createSidewalkNetwork, type SidewalkNetwork } from "./sidewalks";
+import {
+  createPedestrians,
+  updatePedestrians,
+  type PedestrianState,
+} from "./pedestrians";
+import { createWeather, updateWeather, type WeatherState } from "./weather";
+import { createZoning, type Zoning } from "./zoning";
+import {
+  createTrafficLights,
+  setIntersectionTime,
+  updateTrafficLights,
+  type IntersectionState,
+  type TrafficLightState,
+} from "./trafficLights";
+
+export interface CitySimulation {
+  seed: number;
+  config: CityConfig;
+  layout: CityLayout | null; // Imported roads the traffic runs on, if any
+  rng: Random;
+  clock: SimulationClock;
+  zoning: Zoning;
+  network: RoadNetwork;
+  sidewalks: SidewalkNetwork;
+  cars: CarState[];
+  pedestrians: PedestrianState[];
+  intersections: IntersectionState[];
+  trafficLights: TrafficLightState[];
+  weather: WeatherState;
+  ids: AgentIds;
+  fullTraffic: TrafficCount; // Cars and pedestrians at full demand
+}
+
+export interface SimulationOptions {
+  seed: number;
+  config?: Partial<CityConfig>;
+  layout?: CityLayout | null; // Roads to use instead of the grid's
+}
+
+// Function to create the simulation state for a city. With a layout, the
+// traffic runs on its imported roads, and the grid only zones the ground
+// under them.
+export function createSimulation(options: SimulationOptions): CitySimulation {
+  const config = createCityConfig(options.config);
+  const layout = options.layout ?? null;
+  const rng = createRandom(deriveSeed(options.seed, "simulation"));
+  const zoning = createZoning(
+    config,
+    createRandom(deriveSeed(options.seed, "zoning"))
+  );
+
+  const imported = layout ? createImportedRoads(config, layout, rng) : null;
+  if (imported) zoning.paths = imported.paths;
+  const { intersections, trafficLights } =
+    imported ?? createTrafficLights(config, rng);
+  const weather = createWeather(config, rng);
+  const network = imported?.network ?? createRoadNetwork(config, intersections);
+  const sidewalks =
+    imported?.sidewalks ?? createSidewalkNetwork(config, network);
+
+  // The first day starts at midnight, with as much traffic as the demand
+  // asks for then
+  const { demand } = config;
+  const pedestrians = createPedestrians(
+    config,
+    rng,
+    sidewalks,
+    zoning,
+    demand ? getDemandShare(demand.pedestrians, 0) : 1
+  );
+  const cars = createCars(
+    {
+      config,
+      rng,
+      network,
+      trafficLights,
+      sidewalks,
+      pedestrians,
+      weather,
+      zoning,
+    },
+    demand ? getDemandShare(demand.cars, 0) : 1
+  );
+
+  return {
+    seed: options.seed,
+    config,
+    layout,
+    rng,
+    clock: createSimulationClock(),
+    zoning,
+    network,
+    sidewalks,
+    cars,
+    pedestrians,
+    intersections,
+    trafficLights,
+    weather,
+    ids: { car: cars.length, pedestrian: pedestrians.length },
+    fullTraffic: getFullTraffic({ config, zoning, network, sidewalks }),
+  };
+}
+
+// Function to rebuild a simulation for a new config, e.g. after its roads
+// were edited. The road network, signals and agents are built afresh for
+// the new layout, while the clock and the weather carry on.
+export function rebuildSimulation(sim: CitySimulation, config: CityConfig) {
+  const rebuilt = createSimulation({
+    seed: sim.seed,
+    config,
+    layout: sim.layout,
+  });
+  rebuilt.intersections.forEach((intersection) =>
+    setIntersectionTime(intersection, rebuilt.trafficLights, sim.clock.time)
+  );
+  Object.assign(sim, { ...rebuilt, clock: sim.clock, weather: sim.weather });
+}
+
+// Function to advance every simulated element by one step of `dt` seconds.
+// Callers normally drive this through `advanceClock`, which also keeps
+// `clock.time` up to date. Without `detail`, e.g. while the city is far
+// from the camera, cars and pedestrians wait where they are.
+export function stepSimulation(sim: CitySimulation, dt: number, detail = true) {
+  updateWeather(sim.weather, sim.config, sim.rng, dt);
+  updateTrafficLights(sim.intersections, sim.trafficLights, dt);
+  if (detail) stepAgents(sim, dt);
+}
+
+// Function to advance the cars and pedestrians by one step of `dt` seconds,
+// letting them come and go with the traffic demand
+export function stepAgents(sim: CitySimulation, dt: number) {
+  updatePedestrians(sim.pedestrians, sim, dt);
+  updateCars(sim.cars, sim, dt);
+  updateDemand(sim, getDayProgress(sim) * 24, dt);
+}
+
+// Function to run the simulation for a number of fixed steps (headless)
+export function runSimulation(sim: CitySimulation, ticks: number) {
+  for (let tick = 0; tick < ticks; tick++) {
+    sim.clock.time += sim.clock.fixedStep;
+    stepSimulation(sim, sim.clock.fixedStep);
+  }
+  return sim;
+}
+
+// Fraction of the current day that has passed, in [0, 1)
+export function getDayProgress(sim: CitySimulation) {
+  const { dayDuration } = sim.config;
+  return (sim.clock.time % dayDuration) / dayDuration;
+}
+
+// Real-world moment, in milliseconds since the Unix epoch, that the
+// simulation has reached. Every simulated day lasts `dayDuration` seconds
+// and the first one starts at local midnight on `startDate`.
+export function getSimulationTimestamp(sim: CitySimulation) {
+  const { startDate, utcOffset, dayDuration } = sim.config;
+  const midnight = Date.parse(`${startDate}T00:00:00Z`) - utcOffset * 3600000;
+  return midnight + (sim.clock.time / dayDuration) * 86400000;
+}
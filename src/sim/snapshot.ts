@@ -0,0 +1,276 @@
+// Snapshots of the live simulation as versioned JSON. A snapshot holds the
+// seed and config the city was built from plus every piece of state that
+// changes while it runs: the clock, the random sequence, the weather, the
+// signal controllers and heads, every car and pedestrian and the ids for
+// the next ones to come into the city. It also holds the traffic of the
+// streamed chunks around the city that were simulated when it was taken,
+// which share the city's clock and weather. Restoring one continues the
+// simulation exactly where it was taken: the saved chunks come back with
+// their traffic, and any other chunk is generated from its seed at the
+// restored time. The roads of an imported layout are not saved, so its
+// snapshots are restored with the same layout loaded. Snapshots of earlier
+// versions are brought up to date as they are read.
+
+import { createCityConfig, type CityConfig } from "../config";
+import type { CityLayout } from "../geojson";
+import type { CarState } from "./cars";
+import type { ChunkCoord } from "./chunks";
+import type { AgentIds } from "./demand";
+import type { PedestrianState } from "./pedestrians";
+import { createSimulation, type CitySimulation } from "./simulation";
+import type { IntersectionState, TrafficLightState } from "./trafficLights";
+import type { WeatherState } from "./weather";
+
+export const snapshotVersion = 3;
+
+export interface SimulationSnapshot {
+  version: number;
+  seed: number;
+  config: CityConfig;
+  time: number; // Simulated seconds since the start
+  fixedStep: number; // Seconds per step the state was produced with
+  rngState: number;
+  weather: WeatherState;
+  intersections: IntersectionState[];
+  trafficLights: TrafficLightState[];
+  cars: CarState[];
+  pedestrians: PedestrianState[];
+  ids: AgentIds;
+  chunks: ChunkSnapshot[];
+}
+
+// Traffic of a streamed chunk, which changes while it runs like the city's
+export interface ChunkSnapshot extends ChunkCoord {
+  rngState: number;
+  intersections: IntersectionState[];
+  trafficLights: TrafficLightState[];
+  cars: CarState[];
+  pedestrians: PedestrianState[];
+  ids: AgentIds;
+}
+
+// Simulation of a chunk's traffic, with the chunk it belongs to
+export interface ChunkSimulation {
+  coord: ChunkCoord;
+  sim: CitySimulation;
+}
+
+// Function to take a snapshot of a simulation and the chunks simulated
+// around it. The snapshot shares nothing with the simulation, so it stays
+// as it was while the city runs on.
+export function createSnapshot(
+  sim: CitySimulation,
+  chunks: ChunkSimulation[] = []
+): SimulationSnapshot {
+  return structuredClone({
+    version: snapshotVersion,
+    seed: sim.seed,
+    config: sim.config,
+    time: sim.clock.time,
+    fixedStep: sim.clock.fixedStep,
+    weather: sim.weather,
+    ...getTraffic(sim),
+    chunks: chunks.map(({ coord, sim }) => ({
+      x: coord.x,
+      z: coord.z,
+      ...getTraffic(sim),
+    })),
+  });
+}
+
+// Function to get the state of a simulation that its chunks have of their
+// own, as it stands (not copied)
+function getTraffic(sim: CitySimulation) {
+  return {
+    rngState: sim.rng.getState(),
+    intersections: sim.intersections,
+    trafficLights: sim.trafficLights,
+    cars: sim.cars,
+    pedestrians: sim.pedestrians,
+    ids: sim.ids,
+  };
+}
+
+// Function to write a snapshot of a simulation and its chunks as JSON
+export function serializeSnapshot(
+  sim: CitySimulation,
+  chunks: ChunkSimulation[] = []
+) {
+  return JSON.stringify(createSnapshot(sim, chunks));
+}
+
+// Function to read a snapshot written by `serializeSnapshot`, throwing a
+// descriptive error if it is not one this version can restore
+export function parseSnapshot(text: string): SimulationSnapshot {
+  let snapshot: SimulationSnapshot;
+  try {
+    snapshot = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Snapshot is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (
+    !Number.isInteger(snapshot?.version) ||
+    snapshot.version < 1 ||
+    snapshot.version > snapshotVersion
+  ) {
+    throw new Error(
+      `Snapshot version ${snapshot?.version} is not supported, expected 1 to ${snapshotVersion}`
+    );
+  }
+  if (
+    !Number.isInteger(snapshot.seed) ||
+    !Number.isFinite(snapshot.time) ||
+    !(snapshot.fixedStep > 0) ||
+    !Number.isInteger(snapshot.rngState) ||
+    !snapshot.weather ||
+    !Array.isArray(snapshot.intersections) ||
+    !Array.isArray(snapshot.trafficLights) ||
+    !Array.isArray(snapshot.cars) ||
+    !Array.isArray(snapshot.pedestrians)
+  ) {
+    throw new Error(
+      "Snapshot needs a seed, time, fixedStep, rngState, weather and the intersections, trafficLights, cars and pedestrians lists"
+    );
+  }
+
+  snapshot = upgradeSnapshot(snapshot);
+  if (!hasIds(snapshot)) {
+    throw new Error("Snapshot needs the ids of the next car and pedestrian");
+  }
+  if (!Array.isArray(snapshot.chunks)) {
+    throw new Error("Snapshot needs the chunks list");
+  }
+  snapshot.chunks.forEach((chunk) => {
+    if (
+      !Number.isInteger(chunk?.x) ||
+      !Number.isInteger(chunk.z) ||
+      !Number.isInteger(chunk.rngState) ||
+      !Array.isArray(chunk.intersections) ||
+      !Array.isArray(chunk.trafficLights) ||
+      !Array.isArray(chunk.cars) ||
+      !Array.isArray(chunk.pedestrians) ||
+      !hasIds(chunk)
+    ) {
+      throw new Error(
+        "Snapshot chunks need an x, z, rngState, ids and the intersections, trafficLights, cars and pedestrians lists"
+      );
+    }
+  });
+
+  // Throws for invalid configs
+  return { ...snapshot, config: createCityConfig(snapshot.config) };
+}
+
+// Function to check that saved traffic has the ids of the next agents
+function hasIds(traffic: { ids?: AgentIds }) {
+  return (
+    Number.isInteger(traffic.ids?.car) &&
+    Number.isInteger(traffic.ids?.pedestrian)
+  );
+}
+
+// Function to bring a snapshot of an earlier version up to this one, a
+// version at a time
+function upgradeSnapshot(snapshot: SimulationSnapshot): SimulationSnapshot {
+  // Version 1 was from before traffic demand. Its city keeps the fixed
+  // population it ran with, so it gets no demand. Nobody was leaving the
+  // city then, and ids were handed out in order, so the next ones follow
+  // the highest in use.
+  if (snapshot.version === 1) {
+    const getNextId = (agents: { id: number }[]) =>
+      agents.reduce((next, agent) => Math.max(next, agent.id + 1), 0);
+    snapshot = {
+      ...snapshot,
+      version: 2,
+      config: { ...snapshot.config, demand: null },
+      cars: snapshot.cars.map((car) => ({ ...car, leaving: false })),
+      pedestrians: snapshot.pedestrians.map((pedestrian) => ({
+        ...pedestrian,
+        leaving: false,
+      })),
+      ids: {
+        car: getNextId(snapshot.cars),
+        pedestrian: getNextId(snapshot.pedestrians),
+      },
+    };
+  }
+
+  // Version 2 did not save the chunks, which are generated from their
+  // seeds at the restored time instead
+  if (snapshot.version === 2) {
+    snapshot = { ...snapshot, version: 3, chunks: [] };
+  }
+  return snapshot;
+}
+
+// Function to put a simulation back into the state of a snapshot taken
+// from the same city. Records are replaced, so anything drawn from the old
+// ones has to be rebuilt.
+export function restoreSnapshot(
+  sim: CitySimulation,
+  snapshot: SimulationSnapshot
+) {
+  if (
+    snapshot.seed !== sim.seed ||
+    JSON.stringify(snapshot.config) !== JSON.stringify(sim.config)
+  ) {
+    throw new Error(
+      `Snapshot was taken in a different city (seed ${snapshot.seed}); load it with "?snapshot=" to rebuild that city`
+    );
+  }
+
+  const state = structuredClone(snapshot);
+  sim.clock.time = state.time;
+  sim.clock.fixedStep = state.fixedStep;
+  sim.clock.accumulator = 0;
+  sim.clock.pendingSteps = 0;
+  Object.assign(sim.weather, state.weather);
+  restoreTraffic(sim, state);
+}
+
+// Function to put the simulation of a chunk back into the state saved in a
+// snapshot. The chunk simulation has to be built for the same chunk of the
+// restored city, so it shares the city's clock and weather.
+export function restoreChunkSnapshot(
+  chunk: ChunkSimulation,
+  snapshot: ChunkSnapshot
+) {
+  if (snapshot.x !== chunk.coord.x || snapshot.z !== chunk.coord.z) {
+    throw new Error(
+      `Snapshot of chunk ${snapshot.x},${snapshot.z} cannot restore chunk ${chunk.coord.x},${chunk.coord.z}`
+    );
+  }
+  restoreTraffic(chunk.sim, structuredClone(snapshot));
+}
+
+// Function to put saved traffic into a simulation
+function restoreTraffic(
+  sim: CitySimulation,
+  state: ReturnType<typeof getTraffic>
+) {
+  sim.rng.setState(state.rngState);
+  Object.assign(sim.ids, state.ids);
+
+  // Swap the contents of the arrays, which the rest of the simulation
+  // holds on to
+  sim.intersections.splice(0, Infinity, ...state.intersections);
+  sim.trafficLights.splice(0, Infinity, ...state.trafficLights);
+  sim.cars.splice(0, Infinity, ...state.cars);
+  sim.pedestrians.splice(0, Infinity, ...state.pedestrians);
+}
+
+// Function to build the city a snapshot was taken in and restore it, on
+// the roads of `layout` if it was taken in an imported city
+export function createSimulationFromSnapshot(
+  snapshot: SimulationSnapshot,
+  layout: CityLayout | null = null
+) {
+  const sim = createSimulation({
+    seed: snapshot.seed,
+    config: snapshot.config,
+    layout,
+  });
+  restoreSnapshot(sim, snapshot);
+  return sim;
+}
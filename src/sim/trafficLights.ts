@@ -0,0 +1,263 @@
+import {
+  getCellCenter,
+  type CityConfig,
+  type GreenWave,
+  type RoadAxis,
+  type SignalTimings,
+} from "../config";
+import type { Random } from "../random";
+import type { Point } from "./roadNetwork";
+import { getRoadLines, isSignalised } from "./roadLayout";
+
+export type TrafficLightColor = "red" | "yellow" | "green";
+
+// Pedestrian signal for a crosswalk. "flashing" is the end of the walk phase:
+// people already crossing carry on, nobody new steps off the kerb.
+export type WalkSignal = "walk" | "flashing" | "dontWalk";
+
+// One step of an intersection's signal plan
+export interface SignalPhase {
+  horizontal: TrafficLightColor;
+  vertical: TrafficLightColor;
+  duration: number; // Seconds
+}
+
+// Plain simulation record for a signal head. Each intersection has one head
+// for its horizontal approaches and one for its vertical approaches.
+export interface TrafficLightState {
+  id: number;
+  intersection: number; // Id of the controller that drives this head
+  axis: RoadAxis; // Road whose traffic this head controls
+  column: number; // Grid column of the intersection (its vertical road)
+  row: number; // Grid row of the intersection (its horizontal road)
+  x: number;
+  z: number;
+  state: TrafficLightColor;
+}
+
+// Controller that runs the signal plan of one intersection
+export interface IntersectionState {
+  id: number;
+  column: number;
+  row: number;
+  plan: SignalPhase[];
+  phaseIndex: number;
+  timer: number; // Seconds spent in the current phase
+  offset: number; // Seconds the plan is shifted by (for green waves)
+  heads: Record<RoadAxis, number>; // Ids of the heads this controller owns
+}
+
+// Signal controllers of a city and the heads they drive
+export interface TrafficSignals {
+  intersections: IntersectionState[];
+  trafficLights: TrafficLightState[];
+}
+
+const walkClearance = 4; // Seconds of flashing don't walk before yellow
+
+// Function to build the phase plan: green, yellow and an all-red clearance
+// for the horizontal road, then the same for the vertical road
+export function createSignalPlan(timings: SignalTimings): SignalPhase[] {
+  const { green, yellow, allRed } = timings;
+  const plan: SignalPhase[] = [
+    { horizontal: "green", vertical: "red", duration: green },
+    { horizontal: "yellow", vertical: "red", duration: yellow },
+    { horizontal: "red", vertical: "red", duration: allRed },
+    { horizontal: "red", vertical: "green", duration: green },
+    { horizontal: "red", vertical: "yellow", duration: yellow },
+    { horizontal: "red", vertical: "red", duration: allRed },
+  ];
+
+  // A zero all-red time simply skips the clearance phases
+  return plan.filter((phase) => phase.duration > 0);
+}
+
+// Function to get the length of one full signal cycle
+export function getCycleLength(plan: SignalPhase[]) {
+  return plan.reduce((total, phase) => total + phase.duration, 0);
+}
+
+// Function to create an intersection controller and its two signal heads at
+// every crossing where three or four roads meet
+export function createTrafficLights(config: CityConfig, rng: Random) {
+  const signals: TrafficSignals = { intersections: [], trafficLights: [] };
+
+  getRoadLines(config, "vertical").forEach((i) => {
+    getRoadLines(config, "horizontal").forEach((j) => {
+      if (!isSignalised(config, i, j)) return;
+
+      // Heads stand on opposite corners of the intersection
+      const x = getCellCenter(config, i);
+      const z = getCellCenter(config, j);
+      const heads = {
+        horizontal: { x: x - 3, z: z - 3 },
+        vertical: { x: x + 3, z: z + 3 },
+      };
+      addIntersection(signals, config, rng, i, j, { x, z }, heads);
+    });
+  });
+
+  return signals;
+}
+
+// Function to add a controller for the crossing at `center`, in the grid
+// cell at `column` and `row`, with a head for each road axis at the given
+// spots. Its plan starts where the green wave needs it, or at random.
+export function addIntersection(
+  signals: TrafficSignals,
+  config: CityConfig,
+  rng: Random,
+  column: number,
+  row: number,
+  center: Point,
+  heads: Record<RoadAxis, Point>
+) {
+  const { intersections, trafficLights } = signals;
+  const plan = createSignalPlan(config.signalTimings);
+  const intersection: IntersectionState = {
+    id: intersections.length,
+    column,
+    row,
+    plan,
+    phaseIndex: 0,
+    timer: 0,
+    offset: config.greenWave
+      ? getGreenWaveOffset(config, config.greenWave, plan, center.x, center.z)
+      : rng.next() * getCycleLength(plan), // Random start time
+    heads: { horizontal: -1, vertical: -1 },
+  };
+
+  (["horizontal", "vertical"] as const).forEach((axis) => {
+    intersection.heads[axis] = trafficLights.length;
+    trafficLights.push({
+      id: trafficLights.length,
+      intersection: intersection.id,
+      axis,
+      column,
+      row,
+      x: heads[axis].x,
+      z: heads[axis].z,
+      state: "red",
+    });
+  });
+
+  setIntersectionTime(intersection, trafficLights, 0);
+  intersections.push(intersection);
+  return intersection;
+}
+
+// Function to get how far an intersection's plan is shifted so that traffic
+// on the green wave's road, driving at the wave speed, keeps hitting green
+function getGreenWaveOffset(
+  config: CityConfig,
+  wave: GreenWave,
+  plan: SignalPhase[],
+  x: number,
+  z: number
+) {
+  const along = (wave.road === "horizontal" ? x : z) + config.gridSize / 2;
+  const travelTime = along / wave.speed;
+
+  // Time into the plan at which the wave's road turns green
+  const firstGreen = plan.findIndex((phase) => phase[wave.road] === "green");
+  const greenStart = getCycleLength(plan.slice(0, firstGreen));
+
+  return greenStart - travelTime;
+}
+
+// Function to jump an intersection to a point in simulated time
+export function setIntersectionTime(
+  intersection: IntersectionState,
+  trafficLights: TrafficLightState[],
+  time: number
+) {
+  const cycleLength = getCycleLength(intersection.plan);
+  let t = (time + intersection.offset) % cycleLength;
+  if (t < 0) t += cycleLength;
+
+  intersection.phaseIndex = 0;
+  while (
+    t >= intersection.plan[intersection.phaseIndex].duration &&
+    intersection.phaseIndex < intersection.plan.length - 1
+  ) {
+    t -= intersection.plan[intersection.phaseIndex].duration;
+    intersection.phaseIndex++;
+  }
+  intersection.timer = t;
+
+  applyPhase(intersection, trafficLights);
+}
+
+// Function to set the colors of an intersection's heads from its phase
+function applyPhase(
+  intersection: IntersectionState,
+  trafficLights: TrafficLightState[]
+) {
+  const phase = intersection.plan[intersection.phaseIndex];
+  trafficLights[intersection.heads.horizontal].state = phase.horizontal;
+  trafficLights[intersection.heads.vertical].state = phase.vertical;
+}
+
+// Function to get the seconds left in an intersection's current phase
+export function getPhaseTimeLeft(intersection: IntersectionState) {
+  const phase = intersection.plan[intersection.phaseIndex];
+  return phase.duration - intersection.timer;
+}
+
+// Function to get the seconds until a signal head changes color. The color
+// can last over several phases, e.g. red through the other road's green,
+// yellow and clearance.
+export function getStateTimeLeft(
+  intersection: IntersectionState,
+  axis: RoadAxis
+) {
+  const { plan } = intersection;
+  const color = plan[intersection.phaseIndex][axis];
+  let timeLeft = getPhaseTimeLeft(intersection);
+
+  for (let step = 1; step < plan.length; step++) {
+    const phase = plan[(intersection.phaseIndex + step) % plan.length];
+    if (phase[axis] !== color) break;
+    timeLeft += phase.duration;
+  }
+  return timeLeft;
+}
+
+// Function to get the pedestrian signal for the crosswalks across one road
+// of an intersection. People cross alongside the traffic that has green, so
+// the walk phase runs with the green of the other road.
+export function getWalkSignal(
+  intersection: IntersectionState,
+  crossing: RoadAxis
+): WalkSignal {
+  const alongside = crossing === "horizontal" ? "vertical" : "horizontal";
+  const phase = intersection.plan[intersection.phaseIndex];
+  if (phase[alongside] !== "green") return "dontWalk";
+
+  // The last part of the green is left to clear the crosswalk
+  const clearance = Math.min(walkClearance, phase.duration / 2);
+  return getPhaseTimeLeft(intersection) > clearance ? "walk" : "flashing";
+}
+
+// Function to update every intersection controller and its signal heads
+export function updateTrafficLights(
+  intersections: IntersectionState[],
+  trafficLights: TrafficLightState[],
+  dt: number
+) {
+  intersections.forEach((intersection) => {
+    // Update timer (seconds)
+    intersection.timer += dt;
+
+    // Move on to the next phase of the plan when this one is over
+    let phase = intersection.plan[intersection.phaseIndex];
+    while (intersection.timer >= phase.duration) {
+      intersection.timer -= phase.duration;
+      intersection.phaseIndex =
+        (intersection.phaseIndex + 1) % intersection.plan.length;
+      phase = intersection.plan[intersection.phaseIndex];
+    }
+
+    applyPhase(intersection, trafficLights);
+  });
+}
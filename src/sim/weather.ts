@@ -0,0 +1,107 @@
+// Weather state machine. The weather is either fixed by the config or moves
+// between states at random, each state lasting part of a day. Besides what
+// the render layer draws, the weather slows cars down, makes them keep
+// longer gaps and keeps some pedestrians indoors.
+
+import type { CityConfig } from "../config";
+import type { Random } from "../random";
+
+export type WeatherKind = "clear" | "overcast" | "rain" | "fog" | "snow";
+
+export interface WeatherState {
+  kind: WeatherKind;
+  timer: number; // Seconds spent in the current weather
+  duration: number; // Seconds until the weather may change
+}
+
+// How a kind of weather changes the way people move around the city
+export interface WeatherEffects {
+  speedFactor: number; // Multiplier on car cruise speeds
+  headwayFactor: number; // Multiplier on car following gaps
+  pedestrianShare: number; // Share of pedestrians who stay outdoors
+}
+
+export const weatherEffects: Record<WeatherKind, WeatherEffects> = {
+  clear: { speedFactor: 1, headwayFactor: 1, pedestrianShare: 1 },
+  overcast: { speedFactor: 1, headwayFactor: 1, pedestrianShare: 0.85 },
+  rain: { speedFactor: 0.8, headwayFactor: 1.5, pedestrianShare: 0.4 },
+  fog: { speedFactor: 0.6, headwayFactor: 1.8, pedestrianShare: 0.7 },
+  snow: { speedFactor: 0.55, headwayFactor: 2, pedestrianShare: 0.3 },
+};
+
+// Relative chances of the weather that follows each kind of weather
+const weatherTransitions: Record<WeatherKind, [WeatherKind, number][]> = {
+  clear: [
+    ["clear", 2],
+    ["overcast", 3],
+    ["fog", 1],
+  ],
+  overcast: [
+    ["clear", 3],
+    ["rain", 3],
+    ["fog", 1],
+    ["snow", 1],
+  ],
+  rain: [
+    ["overcast", 3],
+    ["rain", 1],
+  ],
+  fog: [
+    ["clear", 2],
+    ["overcast", 2],
+  ],
+  snow: [
+    ["overcast", 3],
+    ["snow", 1],
+  ],
+};
+
+// Function to create the starting weather
+export function createWeather(config: CityConfig, rng: Random): WeatherState {
+  const kind = config.weather === "changing" ? "clear" : config.weather;
+  return { kind, timer: 0, duration: pickWeatherDuration(config, rng) };
+}
+
+// Function to pick how long a spell of weather lasts: a tenth to a third
+// of a day
+function pickWeatherDuration(config: CityConfig, rng: Random) {
+  return rng.range(0.1, 0.33) * config.dayDuration;
+}
+
+// Function to pick the weather that follows the current one
+function pickNextWeather(kind: WeatherKind, rng: Random) {
+  const options = weatherTransitions[kind];
+  const total = options.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = rng.next() * total;
+  for (const [next, weight] of options) {
+    roll -= weight;
+    if (roll < 0) return next;
+  }
+  return options[options.length - 1][0];
+}
+
+// Function to advance the weather, changing it when its spell is over.
+// Weather fixed by the config never changes.
+export function updateWeather(
+  weather: WeatherState,
+  config: CityConfig,
+  rng: Random,
+  dt: number
+) {
+  if (config.weather !== "changing") {
+    weather.kind = config.weather;
+    return;
+  }
+
+  weather.timer += dt;
+  if (weather.timer >= weather.duration) {
+    weather.kind = pickNextWeather(weather.kind, rng);
+    weather.timer = 0;
+    weather.duration = pickWeatherDuration(config, rng);
+  }
+}
+
+// Function to get how the current weather affects the simulation
+export function getWeatherEffects(weather: WeatherState) {
+  return weatherEffects[weather.kind];
+}
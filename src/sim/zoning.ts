@@ -0,0 +1,198 @@
+// Zoning layer. Every grid cell gets a land use, either from a hand-made
+// map in the config or generated from its distance to the city center with
+// some noise. The land use decides which buildings go on a block, how tall
+// they grow, how much street furniture lines its roads and how many cars
+// and pedestrians the roads next to it start with.
+
+import { getCellCenter, type CityConfig, type RoadAxis } from "../config";
+import type { Random } from "../random";
+
+export type LandUse =
+  "downtown" | "residential" | "commercial" | "park" | "industrial";
+
+export interface ZoneRules {
+  buildings: [string, number][]; // Relative chances of each building type
+  heightScale: number; // Multiplier on the building type's height range
+  furniture: number; // Share of street element spots that get one
+  cars: number; // Multiplier on `carsPerRoad` for roads next to the zone
+  pedestrians: number; // Multiplier on `pedestriansPerRoad`
+}
+
+export const zoneRules: Record<LandUse, ZoneRules> = {
+  downtown: {
+    buildings: [
+      ["skyscraper", 4],
+      ["shop", 1],
+    ],
+    heightScale: 1.2,
+    furniture: 1,
+    cars: 1.5,
+    pedestrians: 1.5,
+  },
+  commercial: {
+    buildings: [
+      ["shop", 5],
+      ["apartment", 2],
+      ["skyscraper", 1],
+    ],
+    heightScale: 0.8,
+    furniture: 0.8,
+    cars: 1.2,
+    pedestrians: 1.2,
+  },
+  residential: {
+    buildings: [
+      ["apartment", 6],
+      ["shop", 1],
+    ],
+    heightScale: 1,
+    furniture: 0.6,
+    cars: 0.6,
+    pedestrians: 0.8,
+  },
+  park: {
+    buildings: [], // Trees instead of buildings
+    heightScale: 1,
+    furniture: 1,
+    cars: 0.4,
+    pedestrians: 1,
+  },
+  industrial: {
+    buildings: [["warehouse", 1]],
+    heightScale: 1,
+    furniture: 0.2,
+    cars: 1,
+    pedestrians: 0.3,
+  },
+};
+
+// Land use of every grid cell, one row per grid row along z:
+// `uses[j][i]` is the cell at column i (x) and row j (z). Roads of an
+// imported layout do not run along the grid, so the cells they pass
+// through are listed for each of them.
+export interface Zoning {
+  uses: LandUse[][];
+  paths?: Map<string, ZonedPath>; // Keyed by `${road},${roadIndex}`
+}
+
+// Cells that the lanes of an imported road with one axis run through
+export interface ZonedPath {
+  cells: [number, number][]; // Column and row of each cell
+  share: number; // Length of the lanes as a share of a grid road's
+}
+
+// Function to zone the city, from the config's map if it has one
+export function createZoning(config: CityConfig, rng: Random): Zoning {
+  if (config.zoningMap) {
+    return { uses: config.zoningMap.map((row) => [...row]) };
+  }
+
+  const { gridDivisions, gridSize } = config;
+  const uses: LandUse[][] = [];
+
+  for (let j = 0; j < gridDivisions; j++) {
+    const row: LandUse[] = [];
+    for (let i = 0; i < gridDivisions; i++) {
+      // Distance from the center, 0 there and 1 at the edge midpoints,
+      // jittered so zone borders are not perfect circles
+      const x = getCellCenter(config, i);
+      const z = getCellCenter(config, j);
+      const distance =
+        Math.hypot(x, z) / (gridSize / 2) + rng.range(-0.15, 0.15);
+      row.push(pickLandUse(distance, rng));
+    }
+    uses.push(row);
+  }
+
+  return { uses };
+}
+
+// Function to pick the land use for a cell at a (jittered) distance from
+// the center: a dense core, a commercial ring, then housing with the odd
+// industrial estate on the outskirts, and parks anywhere outside the core
+function pickLandUse(distance: number, rng: Random): LandUse {
+  if (distance < 0.3) return "downtown";
+  if (rng.chance(0.1)) return "park";
+  if (distance < 0.55) return "commercial";
+  if (distance > 0.8 && rng.chance(0.35)) return "industrial";
+  return "residential";
+}
+
+// Function to get the land use of a cell, clamping indices to the grid
+export function getLandUse(zoning: Zoning, i: number, j: number) {
+  const last = zoning.uses.length - 1;
+  const clamp = (index: number) => Math.min(Math.max(index, 0), last);
+  return zoning.uses[clamp(j)][clamp(i)];
+}
+
+// Function to get the zone rules of a cell
+export function getZoneRules(zoning: Zoning, i: number, j: number) {
+  return zoneRules[getLandUse(zoning, i, j)];
+}
+
+// Function to pick a building type for a zone, or null if it has none
+export function pickBuildingType(rules: ZoneRules, rng: Random) {
+  const total = rules.buildings.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total === 0) return null;
+
+  let roll = rng.next() * total;
+  for (const [type, weight] of rules.buildings) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return rules.buildings[rules.buildings.length - 1][0];
+}
+
+// Function to get the number of agents to start on a road: the base count
+// scaled by the average zone multiplier of the cells on both sides of it.
+// Imported roads get the base count for every grid road length of them,
+// scaled by the cells they run through.
+export function getRoadPopulation(
+  zoning: Zoning,
+  road: RoadAxis,
+  roadIndex: number,
+  base: number,
+  key: "cars" | "pedestrians"
+) {
+  const path = zoning.paths?.get(`${road},${roadIndex}`);
+  if (path) {
+    const total = path.cells.reduce(
+      (sum, [i, j]) => sum + getZoneRules(zoning, i, j)[key],
+      0
+    );
+    return Math.round((base * path.share * total) / path.cells.length);
+  }
+
+  const cells = zoning.uses.length;
+  let total = 0;
+
+  for (let k = 0; k < cells; k++) {
+    ([-1, 1] as const).forEach((side) => {
+      // Horizontal roads run along x at row `roadIndex`, vertical roads
+      // along z at column `roadIndex`
+      const rules =
+        road === "horizontal"
+          ? getZoneRules(zoning, k, roadIndex + side)
+          : getZoneRules(zoning, roadIndex + side, k);
+      total += rules[key];
+    });
+  }
+
+  return Math.round((base * total) / (cells * 2));
+}
+
+// Function to list the roads that some lanes or sidewalk links run along,
+// once each, in order of road index with the horizontal road first
+export function getPopulatedRoads(
+  lines: { road: RoadAxis; roadIndex: number }[]
+) {
+  const roads = new Map<string, { road: RoadAxis; roadIndex: number }>();
+  lines.forEach(({ road, roadIndex }) =>
+    roads.set(`${road},${roadIndex}`, { road, roadIndex })
+  );
+  return [...roads.values()].sort(
+    (a, b) =>
+      a.roadIndex - b.roadIndex ||
+      (a.road === b.road ? 0 : a.road === "horizontal" ? -1 : 1)
+  );
+}
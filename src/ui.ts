@@ -0,0 +1,431 @@
+import {
+  requestStep,
+  setPaused,
+  setTimeScale,
+  type SimulationClock,
+} from "./clock";
+import type { CityLayout } from "./geojson";
+import type { CameraMode } from "./render/cameraModes";
+import {
+  editorTools,
+  type CityEditor,
+  type EditorTool,
+} from "./render/cityEditor";
+import type { SelectionInfo } from "./render/picking";
+
+const maxReportLines = 10; // Skipped features listed in the import report
+
+// Function to show the clock's time scale and pause state
+export function showClockStatus(clock: SimulationClock) {
+  const clockLabel = document.createElement("div");
+  clockLabel.id = "clock-label";
+  clockLabel.style.cssText =
+    "position:fixed;top:36px;left:8px;padding:4px 8px;font:12px monospace;" +
+    "color:#fff;background:rgba(0,0,0,0.5);border-radius:4px;z-index:1;";
+  clockLabel.title = "Space: pause, .: step, [ / ]: slower / faster";
+  document.body.appendChild(clockLabel);
+
+  updateClockStatus(clockLabel, clock);
+  return clockLabel;
+}
+
+// Function to refresh the clock status label
+export function updateClockStatus(
+  clockLabel: HTMLElement,
+  clock: SimulationClock
+) {
+  const state = clock.paused ? "Paused" : "Running";
+  clockLabel.textContent = `${state} · ${clock.timeScale}x`;
+}
+
+// Function to bind keyboard shortcuts for pausing, stepping and time scale
+export function bindClockKeys(clock: SimulationClock, onChange: () => void) {
+  window.addEventListener("keydown", (event) => {
+    switch (event.key) {
+      case " ":
+        setPaused(clock, !clock.paused);
+        break;
+      case ".":
+        requestStep(clock);
+        break;
+      case "[":
+        setTimeScale(clock, clock.timeScale / 2);
+        break;
+      case "]":
+        setTimeScale(clock, clock.timeScale * 2);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    onChange();
+  });
+}
+
+// Function to show the active camera mode and its keyboard shortcuts
+export function showCameraStatus() {
+  const cameraLabel = document.createElement("div");
+  cameraLabel.id = "camera-label";
+  cameraLabel.style.cssText =
+    "position:fixed;bottom:8px;left:8px;padding:4px 8px;font:12px monospace;" +
+    "color:#fff;background:rgba(0,0,0,0.5);border-radius:4px;z-index:1;";
+  cameraLabel.title =
+    "1: orbit, 2: chase the selected or next car, 3: walk, 4: fly-through\n" +
+    "Walk: WASD or arrows to move, Shift to run, drag to look";
+  document.body.appendChild(cameraLabel);
+  return cameraLabel;
+}
+
+// Function to refresh the camera mode label
+export function updateCameraStatus(cameraLabel: HTMLElement, mode: string) {
+  const text = `Camera: ${mode}`;
+  if (cameraLabel.textContent !== text) cameraLabel.textContent = text;
+}
+
+// Function to bind the number keys that switch camera mode
+export function bindCameraKeys(onSelect: (mode: CameraMode) => void) {
+  const modes: Record<string, CameraMode> = {
+    "1": "orbit",
+    "2": "chase",
+    "3": "walk",
+    "4": "flyThrough",
+  };
+  window.addEventListener("keydown", (event) => {
+    const mode = modes[event.key];
+    if (!mode) return;
+
+    event.preventDefault();
+    onSelect(mode);
+  });
+}
+
+// Function to show the active seed so the city can be reproduced
+export function showSeed(seed: number) {
+  const seedLabel = document.createElement("div");
+  seedLabel.id = "seed-label";
+  seedLabel.style.cssText =
+    "position:fixed;top:8px;left:8px;padding:4px 8px;font:12px monospace;" +
+    "color:#fff;background:rgba(0,0,0,0.5);border-radius:4px;z-index:1;";
+
+  const link = document.createElement("a");
+  link.href = `?seed=${seed}`;
+  link.textContent = `Seed: ${seed}`;
+  link.style.color = "inherit";
+  seedLabel.appendChild(link);
+
+  document.body.appendChild(seedLabel);
+}
+
+// Function to tell the user that something went wrong. Messages pile up
+// in a label at the bottom of the page until it is clicked away.
+export function showError(error: unknown) {
+  let errorLabel = document.getElementById("error-label");
+  if (!errorLabel) {
+    errorLabel = document.createElement("div");
+    errorLabel.id = "error-label";
+    errorLabel.style.cssText =
+      "position:fixed;bottom:36px;left:50%;transform:translateX(-50%);" +
+      "max-width:60%;padding:4px 8px;font:12px monospace;color:#fff;" +
+      "background:rgba(160,0,0,0.8);border-radius:4px;z-index:2;" +
+      "cursor:pointer;";
+    errorLabel.title = "Click to dismiss";
+    errorLabel.addEventListener("click", () => errorLabel!.remove());
+    document.body.appendChild(errorLabel);
+  }
+
+  const line = document.createElement("div");
+  line.textContent = error instanceof Error ? error.message : String(error);
+  errorLabel.appendChild(line);
+}
+
+// Function to show what an imported layout contained, and list the
+// features that could not be used below. Long lists are cut short, with
+// the whole list in the label's tooltip.
+export function showImportReport(layout: CityLayout) {
+  const reportLabel = document.createElement("div");
+  reportLabel.id = "import-label";
+  reportLabel.style.cssText =
+    "position:fixed;top:64px;left:8px;max-width:40%;padding:4px 8px;" +
+    "font:12px monospace;color:#fff;background:rgba(0,0,0,0.5);" +
+    "border-radius:4px;z-index:1;";
+
+  const { buildings, roads, skipped } = layout;
+  const summary = document.createElement("div");
+  summary.textContent =
+    `Imported ${buildings.length} buildings, ${roads.length} roads` +
+    (skipped.length > 0 ? ` · skipped ${skipped.length} features:` : "");
+  reportLabel.appendChild(summary);
+
+  const lines = skipped.map(
+    ({ feature, reason }) => `Feature ${feature}: ${reason}`
+  );
+  lines.slice(0, maxReportLines).forEach((text) => {
+    const line = document.createElement("div");
+    line.textContent = text;
+    reportLabel.appendChild(line);
+  });
+  if (lines.length > maxReportLines) {
+    const more = document.createElement("div");
+    more.textContent = `… and ${lines.length - maxReportLines} more`;
+    reportLabel.appendChild(more);
+    reportLabel.title = lines.join("\n");
+  }
+  document.body.appendChild(reportLabel);
+}
+
+// Function to show the panel that describes the selected object. It stays
+// hidden until something is selected.
+export function showInspector() {
+  const inspectorPanel = document.createElement("div");
+  inspectorPanel.id = "inspector-panel";
+  inspectorPanel.style.cssText =
+    "position:fixed;bottom:8px;right:8px;min-width:180px;padding:4px 8px;" +
+    "font:12px monospace;color:#fff;background:rgba(0,0,0,0.5);" +
+    "border-radius:4px;z-index:1;display:none;";
+  inspectorPanel.title = "Click an object to inspect it, Escape to deselect";
+  document.body.appendChild(inspectorPanel);
+  return inspectorPanel;
+}
+
+// Function to refresh the inspector panel, hiding it when nothing is
+// selected
+export function updateInspector(
+  inspectorPanel: HTMLElement,
+  info: SelectionInfo | null
+) {
+  if (!info) {
+    inspectorPanel.style.display = "none";
+    return;
+  }
+
+  const title = document.createElement("div");
+  title.textContent = info.title;
+  title.style.fontWeight = "bold";
+
+  const rows = info.rows.map(([label, value]) => {
+    const row = document.createElement("div");
+    row.textContent = `${label}: ${value}`;
+    return row;
+  });
+
+  inspectorPanel.replaceChildren(title, ...rows);
+  inspectorPanel.style.display = "block";
+}
+
+// Actions behind the export and import buttons; null hides a button
+export interface ExportActions {
+  exportGlb: () => Promise<void>;
+  exportPlan: (() => void) | null;
+  importLayout: (text: string) => void;
+}
+
+// Function to show buttons for downloading the city, and for opening a
+// GeoJSON layout in its place
+export function showExportMenu(actions: ExportActions) {
+  const exportMenu = document.createElement("div");
+  exportMenu.id = "export-menu";
+  exportMenu.style.cssText =
+    "position:fixed;top:8px;right:8px;display:flex;gap:4px;z-index:1;";
+
+  addMenuButton(exportMenu, "Export glTF", actions.exportGlb);
+  if (actions.exportPlan) {
+    addMenuButton(exportMenu, "Export layout", actions.exportPlan);
+  }
+  addMenuButton(exportMenu, "Import GeoJSON", async () => {
+    const text = await pickTextFile(
+      ".geojson,.json,application/geo+json,application/json"
+    );
+    if (text !== null) actions.importLayout(text);
+  });
+
+  document.body.appendChild(exportMenu);
+}
+
+// Actions behind the snapshot buttons
+export interface SnapshotActions {
+  save: () => void;
+  load: (text: string) => void;
+}
+
+// Function to show buttons for saving the simulation to a snapshot file
+// and restoring it from one
+export function showSnapshotMenu(actions: SnapshotActions) {
+  const snapshotMenu = document.createElement("div");
+  snapshotMenu.id = "snapshot-menu";
+  snapshotMenu.style.cssText =
+    "position:fixed;top:36px;right:8px;display:flex;gap:4px;z-index:1;";
+
+  addMenuButton(snapshotMenu, "Save snapshot", actions.save);
+  addMenuButton(snapshotMenu, "Load snapshot", async () => {
+    const text = await pickTextFile(".json,application/json");
+    if (text !== null) actions.load(text);
+  });
+
+  document.body.appendChild(snapshotMenu);
+}
+
+// Function to show a button for playing a fly-through path from a file
+export function showCameraMenu(loadFlyThrough: (text: string) => void) {
+  const cameraMenu = document.createElement("div");
+  cameraMenu.id = "camera-menu";
+  cameraMenu.style.cssText =
+    "position:fixed;top:64px;right:8px;display:flex;gap:4px;z-index:1;";
+
+  addMenuButton(cameraMenu, "Load fly-through", async () => {
+    const text = await pickTextFile(".json,application/json");
+    if (text !== null) loadFlyThrough(text);
+  });
+
+  document.body.appendChild(cameraMenu);
+}
+
+// Actions behind the editor's controls
+export interface EditorActions {
+  toggle: () => void;
+  setTool: (tool: EditorTool) => void;
+  setBuildingType: (type: string | null) => void;
+  undo: () => void;
+  redo: () => void;
+  save: () => void;
+  load: (text: string) => void;
+}
+
+// Function to show the button that switches edit mode, and the editor's
+// tools below it while edit mode is on
+export function showEditorMenu(
+  buildingTypes: string[],
+  actions: EditorActions
+) {
+  const editorMenu = document.createElement("div");
+  editorMenu.id = "editor-menu";
+  editorMenu.style.cssText =
+    "position:fixed;top:92px;right:8px;display:flex;flex-direction:column;" +
+    "align-items:flex-end;gap:4px;z-index:1;";
+  editorMenu.title =
+    "Click the ground to use a tool. Ctrl+Z: undo, Ctrl+Y: redo, " +
+    "Delete: remove the selected building";
+
+  const toggleRow = document.createElement("div");
+  addMenuButton(toggleRow, "Edit city", actions.toggle);
+
+  const toolRow = document.createElement("div");
+  toolRow.style.cssText = "display:flex;gap:4px;";
+  editorTools.forEach((tool) =>
+    addMenuButton(toolRow, tool, () => actions.setTool(tool))
+  );
+
+  // Type placed by the building tool, and given to a selected building
+  const typeSelect = document.createElement("select");
+  typeSelect.style.cssText =
+    "padding:4px 8px;font:12px monospace;color:#fff;" +
+    "background:rgba(0,0,0,0.5);border:none;border-radius:4px;";
+  ["park", ...buildingTypes].forEach((type) =>
+    typeSelect.add(new Option(type, type))
+  );
+  typeSelect.addEventListener("change", () =>
+    actions.setBuildingType(
+      typeSelect.value === "park" ? null : typeSelect.value
+    )
+  );
+
+  const historyRow = document.createElement("div");
+  historyRow.style.cssText = "display:flex;gap:4px;";
+  historyRow.appendChild(typeSelect);
+  addMenuButton(historyRow, "Undo", actions.undo);
+  addMenuButton(historyRow, "Redo", actions.redo);
+  addMenuButton(historyRow, "Save layout", actions.save);
+  addMenuButton(historyRow, "Load layout", async () => {
+    const text = await pickTextFile(".json,application/json");
+    if (text !== null) actions.load(text);
+  });
+
+  const messageLabel = document.createElement("div");
+  messageLabel.style.cssText =
+    "padding:4px 8px;font:12px monospace;color:#fff;" +
+    "background:rgba(0,0,0,0.5);border-radius:4px;";
+
+  editorMenu.append(toggleRow, toolRow, historyRow, messageLabel);
+  document.body.appendChild(editorMenu);
+  return editorMenu;
+}
+
+// Function to refresh the editor's controls: the tools are only shown in
+// edit mode, with the active one highlighted
+export function updateEditorMenu(editorMenu: HTMLElement, editor: CityEditor) {
+  const [toggleRow, toolRow, historyRow, messageLabel] = [
+    ...editorMenu.children,
+  ] as HTMLElement[];
+  const display = editor.active ? "flex" : "none";
+  toolRow.style.display = display;
+  historyRow.style.display = display;
+
+  toggleRow.querySelector("button")!.textContent = editor.active
+    ? "Stop editing"
+    : "Edit city";
+  toolRow.querySelectorAll("button").forEach((button, index) => {
+    button.style.outline =
+      editorTools[index] === editor.tool ? "1px solid #ff0" : "none";
+  });
+
+  const [undo, redo] = historyRow.querySelectorAll("button");
+  undo.disabled = editor.history.past.length === 0;
+  redo.disabled = editor.history.future.length === 0;
+  historyRow.querySelector("select")!.value = editor.buildingType ?? "park";
+
+  messageLabel.textContent = editor.message;
+  messageLabel.style.display =
+    editor.active && editor.message ? "block" : "none";
+}
+
+// Function to add a button to a menu. The button is disabled while its
+// action runs, and errors from the action, like a file that cannot be
+// loaded, are shown.
+function addMenuButton(
+  menu: HTMLElement,
+  label: string,
+  onClick: () => unknown
+) {
+  const button = document.createElement("button");
+  button.textContent = label;
+  button.style.cssText =
+    "padding:4px 8px;font:12px monospace;color:#fff;cursor:pointer;" +
+    "background:rgba(0,0,0,0.5);border:none;border-radius:4px;";
+  button.addEventListener("click", async () => {
+    button.disabled = true;
+    try {
+      await onClick();
+    } catch (error) {
+      showError(error);
+    } finally {
+      button.disabled = false;
+    }
+  });
+  menu.appendChild(button);
+}
+
+// Function to let the user pick a local file and read it as text. Resolves
+// to null if no file was picked.
+function pickTextFile(accept: string) {
+  return new Promise<string | null>((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      resolve(file ? file.text() : null);
+    });
+    input.addEventListener("cancel", () => resolve(null));
+    input.click();
+  });
+}
+
+// Function to have the browser save data as a file
+export function downloadFile(name: string, data: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}